@@ -6,6 +6,9 @@ import Dashboard from './pages/Dashboard';
 import Login from './pages/Login';
 import Admin from './pages/Admin';
 import FamilyManagement from './pages/FamilyManagement';
+import FamilyHistory from './pages/FamilyHistory';
+import FamilyAuditLog from './pages/FamilyAuditLog';
+import FilterPolicies from './pages/FilterPolicies';
 import PendingApproval from './pages/PendingApproval';
 import { ApprovalStatus } from './types';
 
@@ -79,6 +82,39 @@ const AppRoutes: React.FC = () => {
         }
       />
 
+      <Route
+        path="/family/history"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <FamilyHistory />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/family/audit"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <FamilyAuditLog />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/family/policies"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <FilterPolicies />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { AccessRequest, AccessGrant, UserProfile } from '../types';
+import { createAccessRequest, subscribeToAccessRequest } from '../services/accessRequestService';
+import { Button, Card } from './UI';
+
+const GRANT_LABELS: Record<AccessGrant, string> = {
+  FIFTEEN_MINUTES: 'for 15 minutes',
+  TODAY: 'for today',
+  PERMANENT: 'from now on'
+};
+
+interface AccessRequestPanelProps {
+  profile: UserProfile;
+  url: string;
+  /** Error code the Worker gave for the block, stored with the request */
+  blockReason?: string;
+  /** Called when the child opens the page after approval */
+  onOpen: () => void;
+}
+
+/**
+ * "Ask my parent" flow shown to a child under a blocked page.
+ * The parent's decision arrives live through a Firestore listener.
+ */
+export const AccessRequestPanel: React.FC<AccessRequestPanelProps> = ({ profile, url, blockReason, onOpen }) => {
+  const [isWriting, setIsWriting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [request, setRequest] = useState<AccessRequest | null>(null);
+
+  useEffect(() => {
+    if (!request?.id) return;
+    return subscribeToAccessRequest(request.id, (latest) => {
+      if (latest) setRequest(latest);
+    });
+  }, [request?.id]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      setRequest(await createAccessRequest(profile, url, reason, blockReason));
+    } catch (err: any) {
+      console.error("Error creating access request:", err);
+      setError(err.message || "Failed to send your request.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (request?.status === 'APPROVED') {
+    return (
+      <Card className="p-4 mb-4 bg-green-50 border border-green-200">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-green-800">
+            Your parent unblocked <strong>{request.pattern}</strong> {GRANT_LABELS[request.grant || 'PERMANENT']}.
+          </p>
+          <Button size="sm" onClick={onOpen}>Open Page</Button>
+        </div>
+      </Card>
+    );
+  }
+
+  if (request?.status === 'DENIED') {
+    return (
+      <Card className="p-4 mb-4 bg-red-50 border border-red-200">
+        <p className="text-sm text-red-800">Your parent said no to <strong>{request.pattern}</strong>.</p>
+        {request.parentNote && <p className="text-sm text-red-700 mt-1">&ldquo;{request.parentNote}&rdquo;</p>}
+      </Card>
+    );
+  }
+
+  if (request) {
+    return (
+      <Card className="p-4 mb-4 bg-yellow-50 border border-yellow-200">
+        <p className="text-sm text-yellow-800">
+          Request sent. Waiting for your parent to answer&hellip; this page will update by itself.
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4 mb-4 border border-gray-200">
+      {isWriting ? (
+        <form onSubmit={handleSend} className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Why do you need this site?
+          </label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={300}
+            rows={2}
+            autoFocus
+            placeholder="e.g. I need it for my history homework"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm sm:text-sm focus:outline-none focus:ring-brand-500 focus:border-brand-500"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="secondary" size="sm" onClick={() => setIsWriting(false)} disabled={isSending}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" isLoading={isSending} disabled={!reason.trim()}>
+              Send Request
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">Think this site should be allowed?</p>
+          <Button size="sm" variant="secondary" onClick={() => setIsWriting(true)}>Ask my parent</Button>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { AlertSettings, Family } from '../types';
+import { updateAlertSettings } from '../services/alertService';
+import { CATEGORY_LABELS } from '../policy/categories.js';
+import { resolveAlertSettings } from '../policy/alerts.js';
+import { Button, Card } from './UI';
+
+const ALERT_CATEGORIES = Object.entries(CATEGORY_LABELS) as [string, string][];
+
+/** Alert settings as edited; numbers stay strings while typed. */
+interface AlertSettingsDraft {
+  enabled: boolean;
+  categories: string[];
+  threshold: string;
+  windowMinutes: string;
+}
+
+interface AlertSettingsFormProps {
+  familyId: string;
+  settings?: Family['settings'];
+  onSaved: (settings: AlertSettings) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * When a parent is alerted: which categories are watched and how many blocks, how fast.
+ */
+export const AlertSettingsForm: React.FC<AlertSettingsFormProps> = ({ familyId, settings, onSaved, onError }) => {
+  // null until edited, so the form follows the saved settings
+  const [draft, setDraft] = useState<AlertSettingsDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saved = resolveAlertSettings(settings);
+  const form: AlertSettingsDraft = draft || {
+    ...saved,
+    threshold: String(saved.threshold),
+    windowMinutes: String(saved.windowMinutes)
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const threshold = Number(draft.threshold);
+    const windowMinutes = Number(draft.windowMinutes);
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > 100) {
+      onError("Alert after must be a whole number of attempts from 1 to 100.");
+      return;
+    }
+    if (!Number.isInteger(windowMinutes) || windowMinutes < 1 || windowMinutes > 24 * 60) {
+      onError("The alert window must be a whole number of minutes from 1 to 1440.");
+      return;
+    }
+
+    const next: AlertSettings = { enabled: draft.enabled, categories: draft.categories, threshold, windowMinutes };
+    setIsSaving(true);
+    try {
+      await updateAlertSettings(familyId, next);
+      setDraft(null);
+      onSaved(next);
+    } catch (err) {
+      console.error("Error updating alert settings:", err);
+      onError("Failed to save alert settings.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={form.enabled}
+          onChange={(e) => setDraft({ ...form, enabled: e.target.checked })}
+          className="h-4 w-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
+        />
+        <span className="ml-2">Alert me about repeated blocked attempts</span>
+      </label>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Watch these categories</label>
+        <div className="grid grid-cols-2 gap-2">
+          {ALERT_CATEGORIES.map(([category, label]) => (
+            <label key={category} className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.categories.includes(category)}
+                onChange={() => setDraft({
+                  ...form,
+                  categories: form.categories.includes(category)
+                    ? form.categories.filter(c => c !== category)
+                    : [...form.categories, category]
+                })}
+                disabled={!form.enabled}
+                className="h-4 w-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
+              />
+              <span className="ml-2">{label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <span>After</span>
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={form.threshold}
+          onChange={(e) => setDraft({ ...form, threshold: e.target.value })}
+          disabled={!form.enabled}
+          className="w-16 px-2 py-1 border border-gray-300 rounded-md shadow-sm sm:text-sm focus:outline-none focus:ring-brand-500 focus:border-brand-500"
+        />
+        <span>blocks within</span>
+        <input
+          type="number"
+          min={1}
+          max={1440}
+          value={form.windowMinutes}
+          onChange={(e) => setDraft({ ...form, windowMinutes: e.target.value })}
+          disabled={!form.enabled}
+          className="w-16 px-2 py-1 border border-gray-300 rounded-md shadow-sm sm:text-sm focus:outline-none focus:ring-brand-500 focus:border-brand-500"
+        />
+        <span>minutes</span>
+      </div>
+      <div className="flex justify-end gap-2">
+        {draft && (
+          <Button size="sm" variant="ghost" onClick={() => setDraft(null)} disabled={isSaving}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSave} isLoading={isSaving} disabled={!draft}>
+          Save
+        </Button>
+      </div>
+    </Card>
+  );
+};
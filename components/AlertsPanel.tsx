@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FamilyAlert } from '../types';
+import { subscribeToFamilyAlerts, markAlertRead, markAllAlertsRead } from '../services/alertService';
+import { CATEGORY_LABELS } from '../policy/categories.js';
+import { Button, Card, Badge } from './UI';
+
+const describeCategories = (categories: string[]) =>
+  categories.map(category => CATEGORY_LABELS[category as keyof typeof CATEGORY_LABELS] || category).join(', ');
+
+interface AlertsPanelProps {
+  familyId?: string;
+  onError: (message: string) => void;
+}
+
+/**
+ * A family's alerts about repeated blocked attempts, newest first.
+ * They arrive live, so a parent with /family open sees them right away.
+ */
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({ familyId, onError }) => {
+  const [alerts, setAlerts] = useState<FamilyAlert[]>([]);
+
+  useEffect(() => {
+    if (!familyId) return;
+    return subscribeToFamilyAlerts(familyId, setAlerts);
+  }, [familyId]);
+
+  const handleToggleRead = async (alert: FamilyAlert) => {
+    try {
+      await markAlertRead(alert.id, !alert.read);
+    } catch (err) {
+      console.error("Error updating alert:", err);
+      onError("Failed to update the alert.");
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllAlertsRead(alerts);
+    } catch (err) {
+      console.error("Error updating alerts:", err);
+      onError("Failed to mark alerts as read.");
+    }
+  };
+
+  const unreadCount = alerts.filter(alert => !alert.read).length;
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">Alerts</h2>
+        {unreadCount > 0 && (
+          <div className="flex items-center gap-3">
+            <Badge color="red">{unreadCount} Unread</Badge>
+            <Button size="sm" variant="ghost" onClick={handleMarkAllRead}>Mark all read</Button>
+          </div>
+        )}
+      </div>
+
+      {alerts.length === 0 ? (
+        <Card className="p-6 text-center text-gray-500 bg-gray-50 border border-gray-100">
+          No alerts. You'll be told here if a child keeps trying to open blocked sites.
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {alerts.map((alert) => (
+            <Card key={alert.id} className={`p-4 ${alert.read ? '' : 'border-l-4 border-red-400'}`}>
+              <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
+                <div className="min-w-0">
+                  <h3 className={`text-md text-gray-900 ${alert.read ? 'font-normal' : 'font-medium'}`}>
+                    {alert.childName} tried to open {describeCategories(alert.categories)} sites {alert.count} times in {alert.windowMinutes} minutes
+                  </h3>
+                  {alert.hosts.length > 0 && (
+                    <p className="text-xs text-gray-500 truncate" title={alert.hosts.join(', ')}>{alert.hosts.join(', ')}</p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-1">{new Date(alert.lastAt).toLocaleString()}</p>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <Link
+                    to={`/family/history?alert=${alert.id}`}
+                    onClick={() => { if (!alert.read) markAlertRead(alert.id, true).catch(err => console.error("Error updating alert:", err)); }}
+                    className="text-sm text-brand-600 hover:text-brand-700"
+                  >
+                    View activity &rarr;
+                  </Link>
+                  <Button size="sm" variant="ghost" onClick={() => handleToggleRead(alert)}>
+                    {alert.read ? 'Mark unread' : 'Mark read'}
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
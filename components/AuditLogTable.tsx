@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AuditAction, AuditLogEntry } from '../types';
+import { AuditLogQuery } from '../services/auditService';
+import { Card, Input } from './UI';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  PARENT_APPROVED: 'Parent approved',
+  PARENT_REJECTED: 'Parent rejected',
+  CHILD_APPROVED: 'Child approved',
+  CHILD_REJECTED: 'Child rejected',
+  USER_SUSPENDED: 'Account suspended',
+  USER_UNSUSPENDED: 'Account unsuspended',
+  FAMILY_SETTINGS_CHANGED: 'Family settings changed',
+  RULE_ADDED: 'Website rule added',
+  RULE_REMOVED: 'Website rule removed',
+  POLICY_SAVED: 'Filter policy saved',
+  POLICY_DELETED: 'Filter policy deleted',
+  CHILD_FILTER_CHANGED: 'Child filter changed',
+  SCHEDULE_CHANGED: 'Allowed hours changed',
+  QUOTA_CHANGED: 'Daily limit changed',
+  PAUSE_CHANGED: 'Internet paused or resumed',
+  SITE_REQUEST_APPROVED: 'Site request approved',
+  SITE_REQUEST_DENIED: 'Site request denied',
+  INVITE_CREATED: 'Invite code created',
+  INVITE_REVOKED: 'Invite code revoked',
+  CHILD_ACCOUNT_CREATED: 'Child account created',
+  ALERT_SETTINGS_CHANGED: 'Alert settings changed'
+};
+
+// Longer values are cut short in the table; the full value is in the cell's tooltip
+const MAX_VALUE_LENGTH = 60;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const truncate = (text: string) => text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+
+/** One line per changed field: "field: before → after". */
+const describeChanges = (entry: AuditLogEntry) => {
+  const fields = new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})]);
+  return [...fields].map(field => ({
+    field: field.replace(/^settings\./, ''),
+    before: formatValue(entry.before?.[field]),
+    after: formatValue(entry.after?.[field])
+  }));
+};
+
+// <input type="date"> works in local dates ("YYYY-MM-DD")
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface AuditLogTableProps {
+  entries: AuditLogEntry[];
+  /** Called with the date range and action whenever they change, so the page can query for them */
+  onQueryChange: (query: AuditLogQuery) => void;
+  /** Entries for the current filters are being loaded */
+  loading?: boolean;
+  /** Show each entry's family (admin view) */
+  showFamily?: boolean;
+}
+
+/**
+ * Audit log entries. The date range and action are handed to the page to query;
+ * the text search, and the action again for pages that do not query it, apply locally.
+ */
+export const AuditLogTable: React.FC<AuditLogTableProps> = ({ entries, onQueryChange, loading = false, showFamily = false }) => {
+  const [actionFilter, setActionFilter] = useState<AuditAction | 'ALL'>('ALL');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    onQueryChange({
+      from: fromDate ? fromDateInput(fromDate) : undefined,
+      // The end date is inclusive, so query up to the following midnight
+      to: toDate ? fromDateInput(toDate) + DAY_MS : undefined,
+      action: actionFilter === 'ALL' ? undefined : actionFilter
+    });
+  }, [onQueryChange, actionFilter, fromDate, toDate]);
+
+  const filteredEntries = useMemo(() => {
+    const search = searchTerm.trim().toLowerCase();
+    return entries.filter(entry =>
+      (actionFilter === 'ALL' || entry.action === actionFilter) &&
+      (!search || [entry.actorEmail, entry.targetName, entry.targetId, entry.familyId, entry.reason]
+        .some(value => value?.toLowerCase().includes(search)))
+    );
+  }, [entries, actionFilter, searchTerm]);
+
+  const selectClass = "block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm sm:text-sm focus:outline-none focus:ring-brand-500 focus:border-brand-500";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <Input
+          placeholder="Search by email, name or reason..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <select value={actionFilter} onChange={(e) => setActionFilter(e.target.value as AuditAction | 'ALL')} className={selectClass}>
+          <option value="ALL">All actions</option>
+          {(Object.entries(AUDIT_ACTION_LABELS) as [AuditAction, string][]).map(([action, label]) => (
+            <option key={action} value={action}>{label}</option>
+          ))}
+        </select>
+        <input type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} className={selectClass} aria-label="From" />
+        <input type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} className={selectClass} aria-label="To" />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-600"></div>
+        </div>
+      ) : filteredEntries.length === 0 ? (
+        <Card className="p-6 text-center text-gray-500 bg-gray-50 border border-gray-100">
+          No audit entries for these filters.
+        </Card>
+      ) : (
+        <Card className="overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Who</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredEntries.map((entry) => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.actorEmail || entry.actorUid}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                      {entry.reason && <p className="text-xs text-gray-500 mt-1">&ldquo;{entry.reason}&rdquo;</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {entry.targetName || entry.targetId}
+                      <p className="text-xs text-gray-400">{entry.targetType.toLowerCase().replace('_', ' ')}</p>
+                      {showFamily && entry.familyId && <p className="text-xs text-gray-400 font-mono">{entry.familyId}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-xs text-gray-600">
+                      {describeChanges(entry).map(change => (
+                        <p key={change.field} title={`${change.before} → ${change.after}`}>
+                          <span className="font-medium text-gray-700">{change.field}:</span>{' '}
+                          {truncate(change.before)} &rarr; {truncate(change.after)}
+                        </p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { UserProfile, UserRole } from '../types';
+import {
+  ProxyError,
+  AccountAccessError,
+  SiteBlockedError,
+  UnsafeTargetError,
+  ProxyUpstreamError,
+  getProxyMode
+} from '../services/proxyService';
+import { AccessRequestPanel } from './AccessRequestPanel';
+import { Button } from './UI';
+
+interface BlockPageProps {
+  error: ProxyError;
+  /** The page that could not be shown */
+  url: string;
+  profile: UserProfile | null;
+  /** Load the page again */
+  onRetry: () => void;
+}
+
+const TONES = {
+  red: { icon: 'bg-red-100 text-red-600', title: 'text-red-700' },
+  yellow: { icon: 'bg-yellow-100 text-yellow-600', title: 'text-yellow-800' },
+  gray: { icon: 'bg-gray-100 text-gray-500', title: 'text-gray-800' }
+};
+
+const ICONS = {
+  blocked: 'M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636',
+  clock: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z',
+  pause: 'M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z',
+  lock: 'M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z',
+  warning: 'M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z'
+};
+
+const BlockPageLayout: React.FC<{
+  tone: keyof typeof TONES;
+  icon: keyof typeof ICONS;
+  title: string;
+  url: string;
+  children: React.ReactNode;
+}> = ({ tone, icon, title, url, children }) => (
+  <div className="max-w-xl mx-auto px-6 py-12 text-center">
+    <div className={`mx-auto flex items-center justify-center h-14 w-14 rounded-full ${TONES[tone].icon}`}>
+      <svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={ICONS[icon]} />
+      </svg>
+    </div>
+    <h2 className={`mt-4 text-2xl font-bold ${TONES[tone].title}`}>{title}</h2>
+    <p className="mt-1 text-sm text-gray-400 truncate" title={url}>{url}</p>
+    <div className="mt-6 text-gray-600 space-y-4">{children}</div>
+  </div>
+);
+
+const RetryButton: React.FC<{ onRetry: () => void; label?: string }> = ({ onRetry, label = 'Try Again' }) => (
+  <Button variant="secondary" onClick={onRetry}>{label}</Button>
+);
+
+/** Children can ask a parent to unblock; parents get a shortcut to their rules. */
+const UnblockOptions: React.FC<BlockPageProps> = ({ error, url, profile, onRetry }) => {
+  if (profile?.role === UserRole.CHILD && profile.familyId) {
+    return (
+      <div className="text-left">
+        <AccessRequestPanel key={url} profile={profile} url={url} blockReason={error.code} onOpen={onRetry} />
+      </div>
+    );
+  }
+  if (profile?.role === UserRole.PARENT) {
+    return (
+      <p className="text-sm">
+        <Link to="/family" className="text-brand-600 hover:text-brand-700">Change your family's website rules &rarr;</Link>
+      </p>
+    );
+  }
+  return null;
+};
+
+const DomainBlockedPage: React.FC<BlockPageProps> = (props) => (
+  <BlockPageLayout tone="red" icon="blocked" title="This site is blocked" url={props.url}>
+    <p>
+      <strong>{props.error.details.domain || props.url}</strong> is on your family's block list.
+    </p>
+    <UnblockOptions {...props} />
+  </BlockPageLayout>
+);
+
+const CategoryBlockedPage: React.FC<BlockPageProps> = (props) => {
+  const { domain, category, filterLevel, policy } = props.error.details;
+  const policyName = policy || filterLevel;
+  return (
+    <BlockPageLayout tone="red" icon="blocked" title="This site is blocked" url={props.url}>
+      <p>
+        <strong>{domain || props.url}</strong> is listed as <strong>{category || 'restricted'}</strong>,
+        {policyName ? ` which the "${policyName}" filter does not allow.` : ' which your safety level does not allow.'}
+      </p>
+      <UnblockOptions {...props} />
+    </BlockPageLayout>
+  );
+};
+
+const ScheduleBlockPage: React.FC<BlockPageProps> = ({ error, url, onRetry }) => {
+  const { nextStart, timeZone } = error.details;
+  return (
+    <BlockPageLayout tone="yellow" icon="clock" title="Browsing is paused" url={url}>
+      <p>It's outside your allowed browsing hours.</p>
+      {nextStart ? (
+        <p className="text-lg font-medium text-gray-800">
+          Back {nextStart.weekday.charAt(0).toUpperCase() + nextStart.weekday.slice(1)} at {nextStart.start}
+          {timeZone && <span className="block text-xs font-normal text-gray-400">{timeZone} time</span>}
+        </p>
+      ) : (
+        <p>There are no allowed hours on your schedule this week. Ask a parent to change it.</p>
+      )}
+      <RetryButton onRetry={onRetry} />
+    </BlockPageLayout>
+  );
+};
+
+const QuotaBlockPage: React.FC<BlockPageProps> = ({ error, url }) => {
+  const { limitSeconds } = error.details;
+  return (
+    <BlockPageLayout tone="yellow" icon="clock" title="Time's up for today" url={url}>
+      <p>
+        {limitSeconds
+          ? `You've used all ${Math.round(limitSeconds / 60)} minutes of today's browsing time.`
+          : "You've used all of today's browsing time."}
+      </p>
+      <p className="text-sm">Your time resets at midnight.</p>
+    </BlockPageLayout>
+  );
+};
+
+const PausedPage: React.FC<BlockPageProps> = ({ error, url, onRetry }) => {
+  const { until, scope } = error.details;
+  return (
+    <BlockPageLayout tone="yellow" icon="pause" title="Paused by your parent" url={url}>
+      <p>
+        {scope === 'FAMILY' ? 'The internet is paused for the whole family.' : 'Your parent has paused the internet for you.'}
+        {' '}Time for a break!
+      </p>
+      {until ? (
+        <p className="text-lg font-medium text-gray-800">
+          Back at {new Date(until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </p>
+      ) : (
+        <p>It will come back on when your parent resumes it.</p>
+      )}
+      <RetryButton onRetry={onRetry} />
+    </BlockPageLayout>
+  );
+};
+
+const ACCOUNT_TITLES: Partial<Record<ProxyError['code'], string>> = {
+  UNAUTHORIZED: 'Please sign in again',
+  PENDING: 'Waiting for approval',
+  REJECTED: 'Access denied',
+  SUSPENDED: 'Account suspended'
+};
+
+const AccountBlockPage: React.FC<BlockPageProps> = ({ error, url }) => (
+  <BlockPageLayout tone="gray" icon="lock" title={ACCOUNT_TITLES[error.code] || 'Not allowed'} url={url}>
+    <p>{error.message}</p>
+    {error.code === 'PENDING' && (
+      <p className="text-sm">
+        <Link to="/pending-approval" className="text-brand-600 hover:text-brand-700">Check your approval status &rarr;</Link>
+      </p>
+    )}
+  </BlockPageLayout>
+);
+
+const UnsafeTargetPage: React.FC<BlockPageProps> = ({ error, url }) => (
+  <BlockPageLayout tone="red" icon="lock" title="This address can't be opened" url={url}>
+    <p>{error.message}</p>
+    <p className="text-sm">Only public websites can be browsed through the family filter.</p>
+  </BlockPageLayout>
+);
+
+const TimeoutPage: React.FC<BlockPageProps> = ({ error, url, onRetry }) => (
+  <BlockPageLayout tone="gray" icon="clock" title="The site took too long" url={url}>
+    <p>{error.message} It may be busy or down.</p>
+    <RetryButton onRetry={onRetry} />
+  </BlockPageLayout>
+);
+
+const UpstreamErrorPage: React.FC<BlockPageProps> = ({ error, url, onRetry }) => (
+  <BlockPageLayout tone="gray" icon="warning" title="Couldn't load this site" url={url}>
+    <p>{error.message}</p>
+    {getProxyMode() === 'DEMO' ? (
+      <p className="text-sm">
+        Demo mode only serves the bundled sample sites. Deploy the Worker and set <code>VITE_PROXY_WORKER_URL</code> to browse the real web.
+      </p>
+    ) : (
+      <ul className="text-sm text-left list-disc ml-6 space-y-1">
+        <li>The site might be blocking proxied or headless requests.</li>
+        <li>The Worker might have hit a CPU or memory limit; check Cloudflare Dashboard &gt; Workers &gt; Logs.</li>
+      </ul>
+    )}
+    <RetryButton onRetry={onRetry} />
+  </BlockPageLayout>
+);
+
+const ProxyErrorPage: React.FC<BlockPageProps> = ({ error, url, onRetry }) => (
+  <BlockPageLayout tone="gray" icon="warning" title="Unable to access site" url={url}>
+    <p>{error.message}</p>
+    <RetryButton onRetry={onRetry} />
+  </BlockPageLayout>
+);
+
+/**
+ * Explain why a page could not be shown, with one page per proxy error code.
+ */
+export const BlockPage: React.FC<BlockPageProps> = (props) => {
+  const { error } = props;
+
+  if (error instanceof SiteBlockedError) {
+    return error.code === 'BLOCKED_CATEGORY' ? <CategoryBlockedPage {...props} /> : <DomainBlockedPage {...props} />;
+  }
+  if (error.code === 'SCHEDULE') return <ScheduleBlockPage {...props} />;
+  if (error.code === 'QUOTA') return <QuotaBlockPage {...props} />;
+  if (error.code === 'PAUSED') return <PausedPage {...props} />;
+  if (error instanceof AccountAccessError) return <AccountBlockPage {...props} />;
+  if (error instanceof UnsafeTargetError) return <UnsafeTargetPage {...props} />;
+  if (error.code === 'TIMEOUT') return <TimeoutPage {...props} />;
+  if (error instanceof ProxyUpstreamError) return <UpstreamErrorPage {...props} />;
+  return <ProxyErrorPage {...props} />;
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../types';
+import { createChildAccount, ChildAccountError } from '../services/childAccountService';
+import { Button, Input } from './UI';
+
+const EMPTY_CHILD_ACCOUNT = { displayName: '', username: '', pin: '', confirmPin: '' };
+
+interface ChildAccountFormProps {
+  familyId?: string;
+  onCreated: (child: UserProfile) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Username-and-PIN account for a child without an email address.
+ */
+export const ChildAccountForm: React.FC<ChildAccountFormProps> = ({ familyId, onCreated, onError }) => {
+  const [account, setAccount] = useState(EMPTY_CHILD_ACCOUNT);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!familyId) return;
+    if (account.pin !== account.confirmPin) {
+      onError("The PINs do not match.");
+      return;
+    }
+    setIsCreating(true);
+    try {
+      const child = await createChildAccount(familyId, account);
+      setAccount(EMPTY_CHILD_ACCOUNT);
+      onCreated(child);
+    } catch (err) {
+      console.error("Error creating child account:", err);
+      onError(err instanceof ChildAccountError ? err.message : "Failed to create the child account.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <Input
+        label="Child's Name"
+        required
+        value={account.displayName}
+        onChange={(e) => setAccount({ ...account, displayName: e.target.value })}
+        placeholder="e.g. Sam"
+      />
+      <Input
+        label="Username"
+        required
+        autoCapitalize="none"
+        value={account.username}
+        onChange={(e) => setAccount({ ...account, username: e.target.value })}
+        placeholder="e.g. sam.smith"
+      />
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="PIN"
+          type="password"
+          inputMode="numeric"
+          required
+          value={account.pin}
+          onChange={(e) => setAccount({ ...account, pin: e.target.value })}
+          placeholder="6-12 digits"
+        />
+        <Input
+          label="Confirm PIN"
+          type="password"
+          inputMode="numeric"
+          required
+          value={account.confirmPin}
+          onChange={(e) => setAccount({ ...account, confirmPin: e.target.value })}
+        />
+      </div>
+      <Button type="submit" variant="secondary" className="w-full" isLoading={isCreating}>
+        Create Account
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { FamilyInvite } from '../types';
+import {
+  generateFamilyInviteCode,
+  revokeInviteCode,
+  subscribeToFamilyInvites,
+  getInviteProblem,
+  DEFAULT_INVITE_OPTIONS
+} from '../services/inviteService';
+import { Button, Badge } from './UI';
+
+const INVITE_LIFETIMES: { label: string; hours: number }[] = [
+  { label: '24 hours', hours: 24 },
+  { label: '48 hours', hours: 48 },
+  { label: '7 days', hours: 7 * 24 }
+];
+
+// Upper bound on children who can register with one code
+const MAX_INVITE_USES = 20;
+
+interface InviteListProps {
+  familyId?: string;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Invite code generator and the family's active codes.
+ * Codes update live as children register with them.
+ */
+export const InviteList: React.FC<InviteListProps> = ({ familyId, onSuccess, onError }) => {
+  const [invites, setInvites] = useState<FamilyInvite[]>([]);
+  // Uses stays a string while typed
+  const [uses, setUses] = useState(String(DEFAULT_INVITE_OPTIONS.maxUses));
+  const [hours, setHours] = useState(DEFAULT_INVITE_OPTIONS.expiresInHours);
+  const [autoApprove, setAutoApprove] = useState(DEFAULT_INVITE_OPTIONS.autoApprove);
+  const [newCode, setNewCode] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [revokingCode, setRevokingCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!familyId) return;
+    return subscribeToFamilyInvites(familyId, setInvites);
+  }, [familyId]);
+
+  const handleGenerate = async () => {
+    if (!familyId) return;
+    const maxUses = Number(uses);
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES) {
+      onError(`An invite code can be used by 1 to ${MAX_INVITE_USES} children.`);
+      return;
+    }
+    setIsGenerating(true);
+    try {
+      setNewCode(await generateFamilyInviteCode(familyId, { maxUses, expiresInHours: hours, autoApprove }));
+    } catch (err) {
+      console.error("Error generating code:", err);
+      onError("Failed to generate invite code.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: FamilyInvite) => {
+    if (!window.confirm(`Revoke code ${invite.code}? Children who already joined with it keep their accounts.`)) return;
+    setRevokingCode(invite.code);
+    try {
+      await revokeInviteCode(invite);
+      onSuccess(`Code ${invite.code} revoked`);
+    } catch (err) {
+      console.error("Error revoking code:", err);
+      onError("Failed to revoke invite code.");
+    } finally {
+      setRevokingCode(null);
+    }
+  };
+
+  // Used, expired and revoked codes are left out
+  const activeInvites = invites.filter(invite => getInviteProblem(invite) === null);
+
+  return (
+    <>
+      <div className="mt-4 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Children who can use it</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_INVITE_USES}
+              value={uses}
+              onChange={(e) => setUses(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm sm:text-sm focus:outline-none focus:ring-brand-500 focus:border-brand-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Valid for</label>
+            <select
+              value={hours}
+              onChange={(e) => setHours(Number(e.target.value))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm sm:text-sm focus:outline-none focus:ring-brand-500 focus:border-brand-500"
+            >
+              {INVITE_LIFETIMES.map(lifetime => (
+                <option key={lifetime.hours} value={lifetime.hours}>{lifetime.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <label className="flex items-start text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={autoApprove}
+            onChange={(e) => setAutoApprove(e.target.checked)}
+            className="mt-0.5 h-4 w-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
+          />
+          <span className="ml-2">
+            Approve automatically
+            <span className="block text-xs text-gray-400">Children can browse as soon as they register, without waiting for you.</span>
+          </span>
+        </label>
+        <Button
+          onClick={handleGenerate}
+          isLoading={isGenerating}
+          variant="secondary"
+          className="w-full"
+        >
+          Generate Invite Code
+        </Button>
+      </div>
+
+      <div className="mt-6">
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Active Codes</h3>
+        {activeInvites.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No active codes</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {activeInvites.map(invite => (
+              <li key={invite.code} className="py-3 flex items-center justify-between">
+                <div>
+                  <span className={`font-mono font-bold tracking-wider ${invite.code === newCode ? 'text-2xl text-brand-600' : 'text-lg text-gray-900'}`}>
+                    {invite.code}
+                  </span>
+                  {invite.autoApprove && <span className="ml-2"><Badge color="green">Auto-approve</Badge></span>}
+                  <p className="text-xs text-gray-500">
+                    {invite.usedBy.length} of {invite.maxUses} used &middot; expires {new Date(invite.expiresAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleRevoke(invite)}
+                  isLoading={revokingCode === invite.code}
+                >
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+};
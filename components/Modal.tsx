@@ -0,0 +1,73 @@
+import React, { useId } from 'react';
+
+const WIDTHS = {
+  lg: 'sm:max-w-lg',
+  '2xl': 'sm:max-w-2xl',
+  '3xl': 'sm:max-w-3xl'
+};
+
+interface ModalProps {
+  title: React.ReactNode;
+  children: React.ReactNode;
+  /** Footer buttons; the first one sits on the right */
+  actions: React.ReactNode;
+  /** Shown in a red circle beside the title, for destructive confirmations */
+  icon?: React.ReactNode;
+  width?: keyof typeof WIDTHS;
+  /** Render the panel as a form, so Enter submits it */
+  onSubmit?: (e: React.FormEvent) => void;
+}
+
+/**
+ * Centered dialog over a dimmed page. Callers mount it while it should be open.
+ */
+export const Modal: React.FC<ModalProps> = ({ title, children, actions, icon, width = 'lg', onSubmit }) => {
+  const titleId = useId();
+  const Panel = onSubmit ? 'form' : 'div';
+
+  const heading = (
+    <h3 className="text-lg leading-6 font-medium text-gray-900" id={titleId}>
+      {title}
+    </h3>
+  );
+
+  return (
+    <div className="fixed inset-0 z-10 overflow-y-auto" role="dialog" aria-modal="true" aria-labelledby={titleId}>
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-gray-500 opacity-75"></div>
+        </div>
+
+        {/* Modal panel */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+        <Panel
+          onSubmit={onSubmit}
+          className={`inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle ${WIDTHS[width]} sm:w-full`}
+        >
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            {icon ? (
+              <div className="sm:flex sm:items-start">
+                <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-red-100 sm:mx-0 sm:h-10 sm:w-10">
+                  {icon}
+                </div>
+                <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
+                  {heading}
+                  {children}
+                </div>
+              </div>
+            ) : (
+              <>
+                {heading}
+                {children}
+              </>
+            )}
+          </div>
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            {actions}
+          </div>
+        </Panel>
+      </div>
+    </div>
+  );
+};
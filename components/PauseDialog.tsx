@@ -0,0 +1,56 @@
+import React from 'react';
+import { UserProfile } from '../types';
+import { Button } from './UI';
+import { Modal } from './Modal';
+
+// null pauses until a parent resumes browsing
+const PAUSE_DURATIONS: { label: string; minutes: number | null }[] = [
+  { label: '15 minutes', minutes: 15 },
+  { label: '30 minutes', minutes: 30 },
+  { label: '1 hour', minutes: 60 },
+  { label: '2 hours', minutes: 120 },
+  { label: 'Until I resume', minutes: null }
+];
+
+interface PauseDialogProps {
+  /** A child, or the whole family */
+  target: UserProfile | 'FAMILY';
+  isPausing: boolean;
+  onPause: (minutes: number | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * "Pause internet" dialog: pick how long browsing stops for.
+ */
+export const PauseDialog: React.FC<PauseDialogProps> = ({ target, isPausing, onPause, onClose }) => (
+  <Modal
+    title={`Pause Internet for ${target === 'FAMILY' ? 'Everyone' : (target.displayName || 'Child')}`}
+    actions={
+      <Button
+        variant="secondary"
+        onClick={onClose}
+        disabled={isPausing}
+        className="w-full sm:ml-3 sm:w-auto"
+      >
+        Cancel
+      </Button>
+    }
+  >
+    <p className="mt-1 text-sm text-gray-500 mb-4">
+      Browsing stops right away and a "paused by your parent" page is shown. Their account is not suspended.
+    </p>
+    <div className="grid grid-cols-2 gap-2">
+      {PAUSE_DURATIONS.map(({ label, minutes }) => (
+        <Button
+          key={label}
+          variant="secondary"
+          onClick={() => onPause(minutes)}
+          disabled={isPausing}
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  </Modal>
+);
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { UserProfile, DailyQuota, Weekday } from '../types';
+import { updateChildQuota } from '../services/familyService';
+import { Button, Input } from './UI';
+import { Modal } from './Modal';
+
+const QUOTA_DAYS: { key: Weekday; label: string }[] = [
+  { key: 'mon', label: 'Mon' },
+  { key: 'tue', label: 'Tue' },
+  { key: 'wed', label: 'Wed' },
+  { key: 'thu', label: 'Thu' },
+  { key: 'fri', label: 'Fri' },
+  { key: 'sat', label: 'Sat' },
+  { key: 'sun', label: 'Sun' }
+];
+const SCHOOL_DAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri'];
+const WEEKEND_DAYS: Weekday[] = ['sat', 'sun'];
+
+// Starting point when a parent first limits a child's time
+const DEFAULT_QUOTA: DailyQuota = { mon: 90, tue: 90, wed: 90, thu: 90, fri: 90, sat: 180, sun: 180 };
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h${rest ? ` ${rest}m` : ''}` : `${rest}m`;
+};
+
+/** Short summary for the child card, e.g. "1h 30m weekdays, 3h weekends". */
+export const describeQuota = (quota?: DailyQuota) => {
+  if (!quota) return 'No limit';
+  const schoolDay = quota.mon;
+  const weekend = quota.sat;
+  const uniform = (days: Weekday[], value?: number) => days.every(day => quota[day] === value);
+  if (uniform(SCHOOL_DAYS, schoolDay) && uniform(WEEKEND_DAYS, weekend)) {
+    const part = (value: number | undefined, label: string) => `${value === undefined ? 'no limit' : formatMinutes(value)} ${label}`;
+    return `${part(schoolDay, 'weekdays')}, ${part(weekend, 'weekends')}`;
+  }
+  return 'Custom';
+};
+
+interface QuotaEditorProps {
+  child: UserProfile;
+  /** Called after the limits are stored; null when they were removed */
+  onSaved: (quota: DailyQuota | null) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Daily screen-time limit dialog for one child, in minutes per weekday.
+ */
+export const QuotaEditor: React.FC<QuotaEditorProps> = ({ child, onSaved, onClose, onError }) => {
+  // Minutes as typed; '' means no limit that day
+  const [draft, setDraft] = useState<Partial<Record<Weekday, string>>>(() => {
+    const quota = child.dailyQuota || DEFAULT_QUOTA;
+    return Object.fromEntries(QUOTA_DAYS.map(({ key }) => [key, quota[key] === undefined ? '' : String(quota[key])]));
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fillDays = (days: Weekday[], value: string) => {
+    setDraft(prev => ({ ...prev, ...Object.fromEntries(days.map(day => [day, value])) }));
+  };
+
+  const handleSave = async (clear: boolean) => {
+    let quota: DailyQuota | null = null;
+    if (!clear) {
+      quota = {};
+      for (const { key, label } of QUOTA_DAYS) {
+        const value = (draft[key] || '').trim();
+        if (!value) continue;
+        const minutes = Number(value);
+        if (!Number.isInteger(minutes) || minutes < 0 || minutes > 24 * 60) {
+          onError(`${label}: enter whole minutes between 0 and 1440.`);
+          return;
+        }
+        quota[key] = minutes;
+      }
+      if (Object.keys(quota).length === 0) {
+        quota = null;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await updateChildQuota(child.uid, quota);
+      onSaved(quota);
+    } catch (err) {
+      console.error("Error saving daily limit:", err);
+      onError("Failed to save daily limits.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={`Daily Limit for ${child.displayName || 'Child'}`}
+      actions={
+        <>
+          <Button
+            onClick={() => handleSave(false)}
+            isLoading={isSaving}
+            className="w-full sm:ml-3 sm:w-auto"
+          >
+            Save Limits
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={onClose}
+            disabled={isSaving}
+            className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+          >
+            Cancel
+          </Button>
+          {child.dailyQuota && (
+            <Button
+              variant="ghost"
+              onClick={() => handleSave(true)}
+              disabled={isSaving}
+              className="mt-3 w-full sm:mt-0 sm:w-auto sm:mr-auto"
+            >
+              Remove Limit
+            </Button>
+          )}
+        </>
+      }
+    >
+      <p className="mt-1 text-sm text-gray-500 mb-4">
+        Minutes of browsing per day. Time counts only while a page is open on screen. Leave a day empty for no limit.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <Input
+          label="School days (Mon–Fri)"
+          type="number"
+          min={0}
+          placeholder="e.g. 90"
+          onChange={(e) => fillDays(SCHOOL_DAYS, e.target.value)}
+          disabled={isSaving}
+        />
+        <Input
+          label="Weekends (Sat–Sun)"
+          type="number"
+          min={0}
+          placeholder="e.g. 180"
+          onChange={(e) => fillDays(WEEKEND_DAYS, e.target.value)}
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="grid grid-cols-7 gap-2">
+        {QUOTA_DAYS.map(({ key, label }) => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-gray-500 mb-1 text-center">{label}</label>
+            <input
+              type="number"
+              min={0}
+              value={draft[key] || ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+              disabled={isSaving}
+              className="block w-full px-1 py-1 border border-gray-300 rounded-md text-sm text-center focus:outline-none focus:ring-brand-500 focus:border-brand-500"
+            />
+          </div>
+        ))}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { WeeklySchedule, Weekday } from '../types';
+import { parseTime } from '../policy/schedule.js';
+
+// Monday first for display; stored keys are the same as policy/schedule.js
+const DAYS: { key: Weekday; label: string }[] = [
+  { key: 'mon', label: 'Mon' },
+  { key: 'tue', label: 'Tue' },
+  { key: 'wed', label: 'Wed' },
+  { key: 'thu', label: 'Thu' },
+  { key: 'fri', label: 'Fri' },
+  { key: 'sat', label: 'Sat' },
+  { key: 'sun', label: 'Sun' }
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+type HourGrid = Record<Weekday, boolean[]>;
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+/** Expand a schedule into one cell per hour; an hour is on if a window covers its start. */
+const scheduleToGrid = (schedule: WeeklySchedule): HourGrid => {
+  const grid = {} as HourGrid;
+  DAYS.forEach(({ key }) => {
+    const windows = schedule[key] || [];
+    grid[key] = HOURS.map(hour => windows.some(window => {
+      const from = parseTime(window.start);
+      const to = parseTime(window.end);
+      return from !== null && to !== null && hour * 60 >= from && hour * 60 < to;
+    }));
+  });
+  return grid;
+};
+
+/** Merge runs of selected hours back into time windows. */
+const gridToSchedule = (grid: HourGrid): WeeklySchedule => {
+  const schedule: WeeklySchedule = {};
+  DAYS.forEach(({ key }) => {
+    const windows: { start: string; end: string }[] = [];
+    let runStart: number | null = null;
+    [...grid[key], false].forEach((selected, hour) => {
+      if (selected && runStart === null) {
+        runStart = hour;
+      } else if (!selected && runStart !== null) {
+        windows.push({ start: formatHour(runStart), end: formatHour(hour) });
+        runStart = null;
+      }
+    });
+    schedule[key] = windows;
+  });
+  return schedule;
+};
+
+interface ScheduleEditorProps {
+  schedule: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Weekly allowed-hours grid. Click or drag across cells to toggle hours.
+ */
+export const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedule, onChange, disabled }) => {
+  const grid = scheduleToGrid(schedule);
+  // While dragging, every cell entered is set to the value of the first cell toggled
+  const [paintValue, setPaintValue] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const stopPainting = () => setPaintValue(null);
+    window.addEventListener('mouseup', stopPainting);
+    return () => window.removeEventListener('mouseup', stopPainting);
+  }, []);
+
+  const setCell = (day: Weekday, hour: number, value: boolean) => {
+    if (disabled || grid[day][hour] === value) return;
+    const next = { ...grid, [day]: grid[day].map((cell, i) => (i === hour ? value : cell)) };
+    onChange(gridToSchedule(next));
+  };
+
+  const setDay = (day: Weekday, value: boolean) => {
+    if (disabled) return;
+    onChange(gridToSchedule({ ...grid, [day]: HOURS.map(() => value) }));
+  };
+
+  return (
+    <div className="overflow-x-auto select-none">
+      <table className="border-collapse text-xs">
+        <thead>
+          <tr>
+            <th className="w-12"></th>
+            {HOURS.map(hour => (
+              <th key={hour} className="w-5 font-normal text-gray-400 text-center">
+                {hour % 3 === 0 ? hour : ''}
+              </th>
+            ))}
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {DAYS.map(({ key, label }) => (
+            <tr key={key}>
+              <td className="pr-2 font-medium text-gray-700">{label}</td>
+              {HOURS.map(hour => (
+                <td
+                  key={hour}
+                  title={`${label} ${formatHour(hour)}–${formatHour(hour + 1)}`}
+                  onMouseDown={() => {
+                    const value = !grid[key][hour];
+                    setPaintValue(value);
+                    setCell(key, hour, value);
+                  }}
+                  onMouseEnter={() => {
+                    if (paintValue !== null) setCell(key, hour, paintValue);
+                  }}
+                  className={`w-5 h-6 border border-white cursor-pointer ${grid[key][hour] ? 'bg-green-400' : 'bg-gray-100 hover:bg-gray-200'}`}
+                />
+              ))}
+              <td className="pl-2 whitespace-nowrap">
+                <button type="button" onClick={() => setDay(key, true)} disabled={disabled} className="text-gray-400 hover:text-green-600">All</button>
+                <span className="text-gray-300 mx-1">/</span>
+                <button type="button" onClick={() => setDay(key, false)} disabled={disabled} className="text-gray-400 hover:text-red-600">None</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-gray-500">
+        <span className="inline-block w-3 h-3 bg-green-400 align-middle mr-1"></span> Browsing allowed.
+        Click or drag to change hours.
+      </p>
+    </div>
+  );
+};
@@ -2,7 +2,7 @@ import firebase from 'firebase/compat/app';
 import 'firebase/compat/auth';
 import 'firebase/compat/firestore';
 import { getFirestore, collection, doc, CollectionReference, DocumentReference } from 'firebase/firestore';
-import { UserProfile, Family, ApprovalRequest } from './types';
+import { UserProfile, Family, ApprovalRequest, ActivityEvent, AccessRequest, FamilyAlert, AuditLogEntry, FamilyInvite } from './types';
 
 // TODO: Replace these with your actual Firebase project configuration
 // These are placeholders to prevent the app from crashing on start in the demo environment
@@ -21,12 +21,32 @@ export const auth = firebase.auth();
 export const db = getFirestore(app);
 export const googleProvider = new firebase.auth.GoogleAuthProvider();
 
+// A second app instance, so a parent can create a child's sign-in without being signed out
+let childAccountsApp: firebase.app.App | null = null;
+const getChildAccountsApp = () => {
+  if (!childAccountsApp) {
+    childAccountsApp = firebase.initializeApp(firebaseConfig, 'childAccounts');
+  }
+  return childAccountsApp;
+};
+export const getChildAccountsAuth = () => getChildAccountsApp().auth();
+// Firestore as the child signed in on that app
+export const getChildAccountsDb = () => getFirestore(getChildAccountsApp());
+
 // Collection references
 export const usersCollection = collection(db, 'users') as CollectionReference<UserProfile>;
 export const familiesCollection = collection(db, 'families') as CollectionReference<Family>;
 export const approvalRequestsCollection = collection(db, 'approvalRequests') as CollectionReference<ApprovalRequest>;
+export const activityCollection = collection(db, 'activity') as CollectionReference<ActivityEvent>;
+export const accessRequestsCollection = collection(db, 'accessRequests') as CollectionReference<AccessRequest>;
+export const alertsCollection = collection(db, 'alerts') as CollectionReference<FamilyAlert>;
+export const auditLogCollection = collection(db, 'auditLog') as CollectionReference<AuditLogEntry>;
+export const invitesCollection = collection(db, 'invites') as CollectionReference<FamilyInvite>;
 
 // Document reference helpers
 export const userDoc = (uid: string) => doc(db, 'users', uid) as DocumentReference<UserProfile>;
 export const familyDoc = (familyId: string) => doc(db, 'families', familyId) as DocumentReference<Family>;
-export const approvalRequestDoc = (requestId: string) => doc(db, 'approvalRequests', requestId) as DocumentReference<ApprovalRequest>;
\ No newline at end of file
+export const approvalRequestDoc = (requestId: string) => doc(db, 'approvalRequests', requestId) as DocumentReference<ApprovalRequest>;
+export const accessRequestDoc = (requestId: string) => doc(db, 'accessRequests', requestId) as DocumentReference<AccessRequest>;
+export const alertDoc = (alertId: string) => doc(db, 'alerts', alertId) as DocumentReference<FamilyAlert>;
+export const inviteDoc = (code: string) => doc(db, 'invites', code) as DocumentReference<FamilyInvite>;
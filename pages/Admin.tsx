@@ -6,11 +6,13 @@ import {
   rejectParentRequest, 
   getAllUsers, 
   suspendUser,
-  updateUserProfile
+  unsuspendUser
 } from '../services/userService';
+import { getAuditLog, AuditLogQuery } from '../services/auditService';
 import { useAuth } from '../services/authContext';
-import { UserProfile, UserRole, ApprovalStatus } from '../types';
+import { UserProfile, UserRole, ApprovalStatus, AuditLogEntry } from '../types';
 import { Card, Button, Badge, Input } from '../components/UI';
+import { AuditLogTable } from '../components/AuditLogTable';
 
 // Simple Modal Component
 const Modal: React.FC<{
@@ -47,7 +49,11 @@ const Admin: React.FC = () => {
   const [pendingRequests, setPendingRequests] = useState<UserProfile[]>([]);
   const [allUsers, setAllUsers] = useState<UserProfile[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'pending' | 'all'>('pending');
+  const [activeTab, setActiveTab] = useState<'pending' | 'all' | 'audit'>('pending');
+  const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([]);
+  const [isAuditLoading, setIsAuditLoading] = useState(false);
+  // Set by the audit table whenever it is shown or its filters change
+  const [auditQuery, setAuditQuery] = useState<AuditLogQuery | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   
@@ -66,6 +72,19 @@ const Admin: React.FC = () => {
     }
   }, [isSuperAdmin]);
 
+  // The table reports its filters each time the tab is opened, so the log includes actions just taken
+  useEffect(() => {
+    if (!isSuperAdmin || !auditQuery) return;
+    setIsAuditLoading(true);
+    getAuditLog(auditQuery)
+      .then(setAuditEntries)
+      .catch(error => {
+        console.error("Error fetching audit log:", error);
+        showNotification('error', 'Failed to load audit log');
+      })
+      .finally(() => setIsAuditLoading(false));
+  }, [isSuperAdmin, auditQuery]);
+
   const fetchData = async () => {
     try {
       setIsLoading(true);
@@ -143,7 +162,7 @@ const Admin: React.FC = () => {
       // Restore to APPROVED status. 
       // NOTE: If they were never approved (e.g. suspended while pending), this might be incorrect, 
       // but simpler for now. Ideally we'd revert to previous status.
-      await updateUserProfile(uid, { approvalStatus: ApprovalStatus.APPROVED });
+      await unsuspendUser(uid);
       showNotification('success', 'User unsuspended');
       await fetchData();
     } catch (error) {
@@ -212,6 +231,16 @@ const Admin: React.FC = () => {
           >
             All Users
           </button>
+          <button
+            onClick={() => setActiveTab('audit')}
+            className={`${
+              activeTab === 'audit'
+                ? 'border-brand-500 text-brand-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+          >
+            Audit Log
+          </button>
         </nav>
       </div>
 
@@ -223,6 +252,8 @@ const Admin: React.FC = () => {
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
           </svg>
         </div>
+      ) : activeTab === 'audit' ? (
+        <AuditLogTable entries={auditEntries} onQueryChange={setAuditQuery} loading={isAuditLoading} showFamily />
       ) : activeTab === 'pending' ? (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {pendingRequests.length === 0 ? (
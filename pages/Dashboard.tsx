@@ -1,8 +1,55 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { Input, Button, Card } from '../components/UI';
-import { fetchProxiedContent, getProxyMode } from '../services/proxyService';
+import { BlockPage } from '../components/BlockPage';
+import { fetchProxiedContent, fromProxyUrl, getProxyMode, sendHeartbeat, createProxyError, createProxyErrorFromBody, ProxyError, ProxyUpstreamError, QuotaStatus } from '../services/proxyService';
 import { useAuth } from '../services/authContext';
-import { FilterLevel } from '../types';
+import { subscribeToFamily } from '../services/familyService';
+import { Family } from '../types';
+import { resolveFilterPolicy } from '../policy/filterPolicies.js';
+import { getActivePause } from '../policy/pause.js';
+
+const FILTER_SOURCE_LABELS = {
+  POLICY: 'set for you',
+  CHILD: 'set for you',
+  FAMILY: 'family setting',
+  DEFAULT: 'default'
+};
+
+const DEFAULT_HEARTBEAT_SECONDS = 60;
+
+const formatDuration = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+/** An address without its query and fragment, which GET form submissions fill in. */
+const pageKey = (href: string) => {
+  try {
+    const parsed = new URL(href);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return href;
+  }
+};
+
+/**
+ * Original addresses of the links, forms and refreshes the proxy rewrote in a page,
+ * i.e. where the frame can navigate by itself.
+ */
+const collectProxiedTargets = (html: string): Set<string> => {
+  const page = new DOMParser().parseFromString(html, 'text/html');
+  const values = [
+    ...Array.from(page.querySelectorAll('a[href], area[href]'), element => element.getAttribute('href') || ''),
+    ...Array.from(page.querySelectorAll('form[action]'), element => element.getAttribute('action') || ''),
+    ...Array.from(page.querySelectorAll('meta[http-equiv]'), element =>
+      (element.getAttribute('content') || '').match(/url\s*=\s*['"]?([^'"]*)/i)?.[1] || '')
+  ];
+  return new Set(values.filter(value => value.includes('/proxy/')).map(value => pageKey(fromProxyUrl(value))));
+};
 
 const Dashboard: React.FC = () => {
   const { userProfile, currentUser } = useAuth();
@@ -11,6 +58,35 @@ const Dashboard: React.FC = () => {
   const [content, setContent] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'preview' | 'code'>('preview');
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [pageTitle, setPageTitle] = useState<string | null>(null);
+  // Why the current page could not be shown; rendered as a block page instead of the frame
+  const [pageError, setPageError] = useState<{ url: string; error: ProxyError } | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  // In-app history: the current page lives in the hash route (#/?url=...), so browser
+  // back/forward and reloads work; the stack below drives our own back/forward buttons.
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const pageUrl = searchParams.get('url');
+  const [historyStack, setHistoryStack] = useState<string[]>([]);
+  const historyIndex: number = (location.state as { historyIndex?: number } | null)?.historyIndex ?? 0;
+  // The URL currently shown (or being loaded), so route changes we caused ourselves do not refetch
+  const loadedUrlRef = useRef<string | null>(null);
+  // Ignore responses from loads that were superseded by a newer navigation
+  const loadIdRef = useRef(0);
+  // Where the last fetched page's rewritten links and forms lead (pageKey), to check the frame's load messages against
+  const frameTargetsRef = useRef<Set<string>>(new Set());
+
+  // Screen-time quota: the Worker (or the demo proxy) meters usage from heartbeats, we count down locally in between
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  // The family decides the safety level unless the child has their own level or policy.
+  // Family and profile are both live, so a parent's pause shows up here at once.
+  const [family, setFamily] = useState<Family | null>(null);
+  const safetyLevel = resolveFilterPolicy(userProfile, family);
+  const pause = getActivePause(userProfile, family);
 
   // Allow exiting full screen with Escape key
   useEffect(() => {
@@ -23,56 +99,224 @@ const Dashboard: React.FC = () => {
     return () => window.removeEventListener('keydown', handleEsc);
   }, []);
 
-  const handleBrowse = useCallback(async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!url) return;
-
-    // Basic client-side validation for UX
-    let target = url;
-    if (!target.startsWith('http')) {
-      target = `https://${target}`;
+  useEffect(() => {
+    if (!userProfile?.familyId) {
+      setFamily(null);
+      return;
     }
+    return subscribeToFamily(userProfile.familyId, setFamily);
+  }, [userProfile?.familyId]);
+
+  // Load today's quota status without using any time
+  useEffect(() => {
+    if (!currentUser) return;
+    sendHeartbeat(currentUser, false)
+      .then(setQuota)
+      .catch(err => console.error("Error loading screen-time status:", err));
+  }, [currentUser]);
+
+  useEffect(() => {
+    setSecondsLeft(quota ? quota.remainingSeconds : null);
+  }, [quota]);
+
+  // Heartbeats only while a page is shown and the tab is visible
+  useEffect(() => {
+    if (!currentUser || !content) return;
+    const interval = window.setInterval(async () => {
+      if (document.visibilityState !== 'visible' || quota?.remainingSeconds === 0) return;
+      try {
+        setQuota(await sendHeartbeat(currentUser, true));
+      } catch (err) {
+        console.error("Heartbeat failed:", err);
+      }
+    }, (quota?.heartbeatSeconds || DEFAULT_HEARTBEAT_SECONDS) * 1000);
+    return () => window.clearInterval(interval);
+  }, [currentUser, content, quota]);
+
+  // Live countdown between heartbeats
+  const hasLimit = secondsLeft !== null;
+  useEffect(() => {
+    if (!hasLimit || !content) return;
+    const tick = window.setInterval(() => {
+      if (document.visibilityState !== 'visible') return;
+      setSecondsLeft(prev => (prev !== null && prev > 0 ? prev - 1 : prev));
+    }, 1000);
+    return () => window.clearInterval(tick);
+  }, [hasLimit, content]);
 
+  /**
+   * Record a page in the history stack and the hash route.
+   * `replace` swaps the current entry, e.g. when a redirect changed the URL.
+   */
+  const commitHistory = useCallback((target: string, replace: boolean) => {
+    const index = replace ? historyIndex : historyIndex + 1;
+    setHistoryStack(prev => [...prev.slice(0, index), target]);
+    navigate(`/?url=${encodeURIComponent(target)}`, { replace, state: { historyIndex: index } });
+  }, [historyIndex, navigate]);
+
+  const loadPage = useCallback(async (target: string) => {
+    const loadId = ++loadIdRef.current;
+    loadedUrlRef.current = target;
+    setUrl(target);
     setIsLoading(true);
     setContent(null);
-    setIsFullScreen(false);
+    setPageTitle(null);
+    setPageError(null);
 
     try {
       // Pass the currentUser (which might be a simulated user) to the service
       const result = await fetchProxiedContent(target, currentUser);
-      setContent(result);
+      if (loadId !== loadIdRef.current) return;
+      frameTargetsRef.current = collectProxiedTargets(result.html);
+      setContent(result.html);
+      // Show where redirects actually led, not just what was typed
+      if (result.finalUrl !== target) {
+        loadedUrlRef.current = result.finalUrl;
+        setUrl(result.finalUrl);
+        commitHistory(result.finalUrl, true);
+      }
     } catch (error: any) {
+      if (loadId !== loadIdRef.current) return;
       console.error(error);
-      const proxyMode = getProxyMode();
-      
-      const errorContent = `
-        <div style="text-align: center; color: #dc2626; padding: 40px; font-family: sans-serif;">
-          <h2 style="font-size: 1.5rem; font-weight: bold; margin-bottom: 1rem;">Unable to Access Site</h2>
-          <p style="font-size: 1.1rem; margin-bottom: 1.5rem;">${error.message || "An unexpected error occurred."}</p>
-          
-          <div style="max-w-lg mx-auto text-left padding: 1.5rem; background-color: #fef2f2; border-radius: 0.5rem; border: 1px solid #fee2e2; padding: 20px;">
-            ${proxyMode === 'DEMO' ? `
-              <h3 style="font-weight: bold; color: #991b1b; margin-bottom: 0.5rem;">⚠️ Using Public Demo Proxy</h3>
-              <p style="font-size: 0.9rem; color: #7f1d1d;">Major sites (Google, Facebook, YouTube) usually block the public demo proxy used in this preview.</p>
-              <p style="font-size: 0.9rem; color: #7f1d1d; margin-top: 0.5rem;"><strong>Try testing:</strong> wikipedia.org, example.com, or basic HTML sites.</p>
-              <p style="font-size: 0.9rem; color: #7f1d1d; margin-top: 1rem;">To fix this, ensure you have deployed your Cloudflare Worker and updated <code>services/proxyService.ts</code>.</p>
-            ` : `
-              <h3 style="font-weight: bold; color: #1e40af; margin-bottom: 0.5rem;">🔧 Cloudflare Worker Error</h3>
-              <p style="font-size: 0.9rem; color: #1e3a8a;">You are connected to your custom Worker, but it failed to retrieve the page.</p>
-              <ul style="list-style-type: disc; margin-left: 1.5rem; margin-top: 0.5rem; font-size: 0.9rem; color: #1e3a8a;">
-                <li>The target site might be blocking headless requests.</li>
-                <li>Your Worker deployment might have hit a CPU/Memory limit.</li>
-                <li>Check your Cloudflare Dashboard > Workers > Logs for details.</li>
-              </ul>
-            `}
-          </div>
-        </div>
-      `;
-      setContent(errorContent);
+      setPageError({
+        url: target,
+        error: error instanceof ProxyError ? error : new ProxyUpstreamError('UPSTREAM_ERROR', error.message || "An unexpected error occurred.")
+      });
     } finally {
+      if (loadId === loadIdRef.current) setIsLoading(false);
+    }
+  }, [currentUser, commitHistory]);
+
+  /** Open a new page: push it onto the history and let the route effect load it. */
+  const navigateTo = useCallback((target: string) => {
+    if (target === loadedUrlRef.current) {
+      loadPage(target);
+      return;
+    }
+    commitHistory(target, false);
+  }, [commitHistory, loadPage]);
+
+  // Load whatever page the hash route points at (typed URL, link click, browser back/forward, deep link)
+  useEffect(() => {
+    if (!pageUrl) {
+      loadedUrlRef.current = null;
+      setContent(null);
+      setUrl('');
+      return;
+    }
+    setHistoryStack(prev => {
+      if (prev[historyIndex] === pageUrl) return prev;
+      // Deep link or reload: start a fresh stack at this entry
+      const next = prev.length > historyIndex ? [...prev] : [...prev, ...new Array(historyIndex - prev.length + 1).fill('')];
+      next[historyIndex] = pageUrl;
+      return next;
+    });
+    if (pageUrl !== loadedUrlRef.current) {
+      loadPage(pageUrl);
+    }
+  }, [pageUrl, historyIndex]);
+
+  const canGoBack = historyIndex > 0;
+  const canGoForward = historyIndex < historyStack.length - 1;
+
+  const handleReload = () => {
+    if (loadedUrlRef.current) loadPage(loadedUrlRef.current);
+  };
+
+  // A parent's pause replaces the current page right away (the Worker refuses new loads by itself)
+  // and, if it has an end time, the page comes back when it lifts.
+  const pauseKey = pause ? `${pause.scope}:${pause.until}` : null;
+  useEffect(() => {
+    if (!pause) return;
+    if (loadedUrlRef.current) {
+      loadIdRef.current++;
       setIsLoading(false);
+      setContent(null);
+      setPageError({
+        url: loadedUrlRef.current,
+        error: createProxyError('PAUSED', 'Your parent paused the internet.', { scope: pause.scope, until: pause.until })
+      });
+    }
+    if (!pause.until) return;
+    const timer = window.setTimeout(handleReload, pause.until - Date.now());
+    return () => window.clearTimeout(timer);
+  }, [pauseKey]);
+
+  const handleBrowse = useCallback(async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!url) return;
+
+    // Basic client-side validation for UX
+    let target = url;
+    if (!target.startsWith('http')) {
+      target = `https://${target}`;
     }
-  }, [url, currentUser]);
+
+    setIsFullScreen(false);
+    navigateTo(target);
+  }, [url, navigateTo]);
+
+  // Messages from the bridge script the Worker injects into every proxied page.
+  // The frame's origin is opaque ("null"), so the sending window is what we check.
+  useEffect(() => {
+    // Page scripts can post bridge messages too. A page the frame loaded by itself must be the
+    // current page (e.g. a form posting back) or one the proxy's rewrites lead to; anything
+    // else would let a page put any address in the toolbar and the history.
+    const isFrameTarget = (href: string) =>
+      (!!loadedUrlRef.current && pageKey(href) === pageKey(loadedUrlRef.current)) || frameTargetsRef.current.has(pageKey(href));
+
+    const handleMessage = (event: MessageEvent) => {
+      if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) return;
+      const data = event.data;
+      if (!data || data.source !== 'openfamilysafe') return;
+
+      if (data.type === 'navigate' && typeof data.url === 'string') {
+        // Links load through the Dashboard again so every page is fetched with the ID token
+        navigateTo(fromProxyUrl(data.url));
+      } else if (data.type === 'load' && typeof data.url === 'string' && isFrameTarget(data.url)) {
+        // Also fires after form submissions, which navigate the frame itself: record those as new pages
+        if (data.url !== loadedUrlRef.current) {
+          loadedUrlRef.current = data.url;
+          setUrl(data.url);
+          commitHistory(data.url, false);
+        }
+        setPageTitle(typeof data.title === 'string' && data.title ? data.title : null);
+      } else if (data.type === 'blocked' && typeof data.url === 'string' && typeof data.status === 'number' && isFrameTarget(data.url)) {
+        // The Worker refused a page the frame navigated to by itself: show the block page for it
+        loadIdRef.current++;
+        setIsLoading(false);
+        setContent(null);
+        setPageTitle(null);
+        setPageError({ url: data.url, error: createProxyErrorFromBody(data.error, 'INVALID_REQUEST', data.status) });
+        if (data.url !== loadedUrlRef.current) {
+          loadedUrlRef.current = data.url;
+          setUrl(data.url);
+          commitHistory(data.url, false);
+        }
+      } else if (data.type === 'title' && typeof data.title === 'string') {
+        setPageTitle(data.title || null);
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [navigateTo, commitHistory]);
+
+  const navigationButtons = (
+    <div className="flex items-center gap-1">
+      <button type="button" onClick={() => navigate(-1)} disabled={!canGoBack} title="Back"
+        className="p-2 rounded-md text-gray-500 hover:text-brand-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500">
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+      </button>
+      <button type="button" onClick={() => navigate(1)} disabled={!canGoForward} title="Forward"
+        className="p-2 rounded-md text-gray-500 hover:text-brand-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500">
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+      </button>
+      <button type="button" onClick={handleReload} disabled={!pageUrl || isLoading} title="Reload"
+        className="p-2 rounded-md text-gray-500 hover:text-brand-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500">
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+      </button>
+    </div>
+  );
 
   return (
     <div className="space-y-6">
@@ -84,12 +328,29 @@ const Dashboard: React.FC = () => {
           Enter a website URL below to browse safely through the family filter.
         </p>
         <div className="mt-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
-           Current Safety Level: {userProfile?.filterLevel || FilterLevel.MODERATE}
+           Current Safety Level: {safetyLevel.policy.name}
+           <span className="ml-1 text-blue-500">({FILTER_SOURCE_LABELS[safetyLevel.source]})</span>
         </div>
+        {pause && (
+          <div className="mt-2 ml-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-yellow-50 text-yellow-800">
+            Internet paused{pause.until ? ` until ${new Date(pause.until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : ''}
+          </div>
+        )}
+        {getProxyMode() === 'DEMO' && (
+          <div className="mt-2 ml-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-yellow-50 text-yellow-800" title="No Worker configured: bundled sample sites are filtered in your browser">
+            Demo Mode: try example.com
+          </div>
+        )}
+        {secondsLeft !== null && (
+          <div className={`mt-2 ml-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${secondsLeft <= 5 * 60 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+            {secondsLeft > 0 ? `Time left today: ${formatDuration(secondsLeft)}` : "Time's up for today"}
+          </div>
+        )}
       </div>
 
       <Card className="max-w-4xl mx-auto p-6 bg-white shadow-lg border border-gray-100">
-        <form onSubmit={handleBrowse} className="flex gap-4 items-end">
+        <form onSubmit={handleBrowse} className="flex gap-4 items-center">
+          {navigationButtons}
           <div className="flex-grow">
             <Input
               placeholder="e.g., wikipedia.org"
@@ -105,13 +366,14 @@ const Dashboard: React.FC = () => {
         </form>
       </Card>
 
-      {content && (
+      {(content || pageError) && (
         <div className={isFullScreen ? "fixed inset-0 z-50 bg-white flex flex-col animate-in fade-in duration-200" : "max-w-6xl mx-auto mt-8 animate-fade-in"}>
           {/* Header / Toolbar */}
           <div className={`flex justify-between items-center ${isFullScreen ? 'px-4 py-2 bg-gray-100 border-b border-gray-300 shadow-md' : 'mb-4 px-2'}`}>
             {isFullScreen ? (
                  /* Full Screen Browser-like Bar */
                  <div className="w-full flex justify-between items-center gap-4">
+                     {navigationButtons}
                      <div className="flex-grow max-w-3xl mx-auto flex items-center bg-white border border-gray-300 rounded-md px-3 py-1.5 shadow-sm text-sm text-gray-700">
                         <svg className="w-4 h-4 text-gray-400 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
                         <span className="truncate">{url}</span>
@@ -123,8 +385,10 @@ const Dashboard: React.FC = () => {
             ) : (
                 /* Standard Dashboard Header */
                 <>
-                    <h2 className="text-lg font-medium text-gray-900">Result for: {url}</h2>
-                    <div className="flex items-center gap-3">
+                    <h2 className="text-lg font-medium text-gray-900 truncate" title={url}>
+                        {pageTitle || `Result for: ${url}`}
+                    </h2>
+                    {content && <div className="flex items-center gap-3">
                         <div className="space-x-1 bg-white p-1 rounded-lg border shadow-sm flex">
                             <button 
                                 onClick={() => setViewMode('preview')}
@@ -150,17 +414,25 @@ const Dashboard: React.FC = () => {
                                 </svg>
                             </button>
                         )}
-                    </div>
+                    </div>}
                 </>
             )}
           </div>
           
           {/* Content Container */}
           <div className={`bg-white overflow-hidden ${isFullScreen ? 'flex-grow w-full h-full overflow-auto' : 'rounded-lg shadow-sm border border-gray-200 min-h-[500px]'}`}>
-            {viewMode === 'preview' ? (
-                <div 
-                    className={`w-full h-full bg-white ${isFullScreen ? '' : 'p-4'}`}
-                    dangerouslySetInnerHTML={{ __html: content }} 
+            {pageError ? (
+                <BlockPage error={pageError.error} url={pageError.url} profile={userProfile} onRetry={() => loadPage(pageError.url)} />
+            ) : viewMode === 'preview' ? (
+                // No allow-same-origin: page scripts get an opaque origin, away from our Firebase session.
+                // No allow-popups: pages opened in a new window would escape the screen-time meter.
+                <iframe
+                    ref={iframeRef}
+                    title={pageTitle || url}
+                    srcDoc={content}
+                    sandbox="allow-scripts allow-forms"
+                    referrerPolicy="no-referrer"
+                    className={`w-full border-0 bg-white ${isFullScreen ? 'h-full' : 'h-[70vh] min-h-[500px]'}`}
                 />
             ) : (
                 <pre className={`w-full overflow-auto p-4 bg-gray-900 text-green-400 text-xs font-mono ${isFullScreen ? 'h-full' : 'h-[500px]'}`}>
@@ -171,7 +443,7 @@ const Dashboard: React.FC = () => {
         </div>
       )}
 
-      {!content && !isLoading && (
+      {!content && !pageError && !isLoading && (
         <div className="max-w-4xl mx-auto mt-12 grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
             {[
                 { title: 'Educational', desc: 'Wikipedia, Khan Academy, and verified educational resources are always allowed.', color: 'green' },
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../services/authContext';
+import { getFamilyByParent } from '../services/familyService';
+import { getFamilyAuditLog, AuditLogQuery } from '../services/auditService';
+import { AuditLogEntry, Family } from '../types';
+import { AuditLogTable } from '../components/AuditLogTable';
+
+const FamilyAuditLog: React.FC = () => {
+  const { user, isParent, isApproved } = useAuth();
+
+  const [family, setFamily] = useState<Family | null>(null);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  // Set by the table once it has read its filters
+  const [auditQuery, setAuditQuery] = useState<AuditLogQuery | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !isParent || !isApproved) {
+      setLoading(false);
+      return;
+    }
+    getFamilyByParent(user.uid).then(fam => {
+      setFamily(fam);
+      if (!fam) setLoading(false);
+    }).catch(err => {
+      console.error("Error loading family:", err);
+      setError("Failed to load the audit log.");
+      setLoading(false);
+    });
+  }, [user, isParent, isApproved]);
+
+  useEffect(() => {
+    if (!family || !auditQuery) return;
+    const loadEntries = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        // The action filter is applied by the table
+        setEntries(await getFamilyAuditLog(family.id, { from: auditQuery.from, to: auditQuery.to }));
+      } catch (err) {
+        console.error("Error loading audit log:", err);
+        setError("Failed to load the audit log.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadEntries();
+  }, [family, auditQuery]);
+
+  if (!user) {
+    return <div className="p-8 text-center">Please log in to view the audit log.</div>;
+  }
+
+  if (!isParent || !isApproved) {
+    return <div className="p-8 text-center">Access Denied: Only parents can access this page.</div>;
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex justify-between items-end">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600">Every change made to your family's accounts and settings, and who made it.</p>
+        </div>
+        <Link to="/family" className="text-sm text-brand-600 hover:text-brand-700">&larr; Family Management</Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <AuditLogTable entries={entries} onQueryChange={setAuditQuery} loading={loading} />
+    </div>
+  );
+};
+
+export default FamilyAuditLog;
@@ -0,0 +1,262 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../services/authContext';
+import { getFamilyByParent, getFamilyChildren } from '../services/familyService';
+import { getFamilyActivity, getTopDomains } from '../services/activityService';
+import { getAlert } from '../services/alertService';
+import { ActivityEvent, Family, FamilyAlert, UserProfile } from '../types';
+import { Card, Badge } from '../components/UI';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// <input type="date"> works in local dates ("YYYY-MM-DD")
+const toDateInput = (time: number) => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`).getTime();
+
+const REASON_LABELS: Record<string, string> = {
+  BLOCKED_DOMAIN: 'Family rule',
+  BLOCKED_CATEGORY: 'Category',
+  SCHEDULE: 'Outside allowed hours',
+  QUOTA: 'Daily limit reached',
+  PAUSED: 'Internet paused'
+};
+
+const FamilyHistory: React.FC = () => {
+  const { user, isParent, isApproved } = useAuth();
+
+  const [family, setFamily] = useState<Family | null>(null);
+  const [children, setChildren] = useState<UserProfile[]>([]);
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters: the date range and child are queried, the decision is applied locally
+  const [fromDate, setFromDate] = useState(toDateInput(Date.now() - 6 * DAY_MS));
+  const [toDate, setToDate] = useState(toDateInput(Date.now()));
+  const [childFilter, setChildFilter] = useState<string>('ALL');
+  const [decisionFilter, setDecisionFilter] = useState<'ALL' | 'ALLOWED' | 'BLOCKED'>('ALL');
+
+  // Opened from an alert (?alert=<id>): its blocked attempts are filtered to and highlighted
+  const [searchParams] = useSearchParams();
+  const alertId = searchParams.get('alert');
+  const [alert, setAlert] = useState<FamilyAlert | null>(null);
+
+  useEffect(() => {
+    if (!user || !isParent || !isApproved) {
+      setLoading(false);
+      return;
+    }
+    const loadFamily = async () => {
+      try {
+        const fam = await getFamilyByParent(user.uid);
+        setFamily(fam);
+        if (fam) {
+          setChildren(await getFamilyChildren(fam.id));
+        } else {
+          // Nothing to query; the activity effect below never runs
+          setLoading(false);
+        }
+      } catch (err) {
+        console.error("Error loading family:", err);
+        setError("Failed to load family data.");
+        setLoading(false);
+      }
+    };
+    loadFamily();
+  }, [user, isParent, isApproved]);
+
+  useEffect(() => {
+    if (!alertId || !user || !isParent || !isApproved) {
+      setAlert(null);
+      return;
+    }
+    getAlert(alertId).then(found => {
+      setAlert(found);
+      if (!found) {
+        setError("This alert has expired or no longer exists.");
+        return;
+      }
+      setChildFilter(found.childUid);
+      setDecisionFilter('BLOCKED');
+      setFromDate(toDateInput(found.firstAt));
+      setToDate(toDateInput(found.lastAt));
+    }).catch(err => {
+      console.error("Error loading alert:", err);
+      setError("Failed to load the alert.");
+    });
+  }, [alertId, user, isParent, isApproved]);
+
+  useEffect(() => {
+    if (!family || !fromDate || !toDate) return;
+    const loadActivity = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        // The end date is inclusive, so query up to the following midnight
+        setEvents(await getFamilyActivity(
+          family.id,
+          fromDateInput(fromDate),
+          fromDateInput(toDate) + DAY_MS,
+          childFilter === 'ALL' ? undefined : childFilter
+        ));
+      } catch (err) {
+        console.error("Error loading activity:", err);
+        setError("Failed to load browsing history.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadActivity();
+  }, [family, fromDate, toDate, childFilter]);
+
+  const filteredEvents = useMemo(() => events.filter(event =>
+    decisionFilter === 'ALL' || event.decision === decisionFilter
+  ), [events, decisionFilter]);
+
+  const topDomains = useMemo(() => getTopDomains(filteredEvents), [filteredEvents]);
+
+  const childName = (uid: string) => {
+    const child = children.find(c => c.uid === uid);
+    return child ? (child.displayName || child.email) : 'Unknown';
+  };
+
+  if (!user) {
+    return <div className="p-8 text-center">Please log in to view browsing history.</div>;
+  }
+
+  if (!isParent || !isApproved) {
+    return <div className="p-8 text-center">Access Denied: Only parents can access this page.</div>;
+  }
+
+  const selectClass = "block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm sm:text-sm focus:outline-none focus:ring-brand-500 focus:border-brand-500";
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex justify-between items-end">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Browsing History</h1>
+          <p className="text-gray-600">Pages your children opened through the proxy in the last 30 days.</p>
+        </div>
+        <Link to="/family" className="text-sm text-brand-600 hover:text-brand-700">&larr; Family Management</Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {alert && (
+        <div className="mb-4 bg-yellow-50 border-l-4 border-yellow-400 p-4">
+          <p className="text-sm text-yellow-800">
+            Showing the alert for {alert.childName}: {alert.count} blocked attempts between{' '}
+            {new Date(alert.firstAt).toLocaleTimeString()} and {new Date(alert.lastAt).toLocaleTimeString()} are highlighted.
+          </p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <Card className="p-4 mb-8">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Child</label>
+            <select value={childFilter} onChange={(e) => setChildFilter(e.target.value)} className={selectClass}>
+              <option value="ALL">All children</option>
+              {children.map(child => (
+                <option key={child.uid} value={child.uid}>{child.displayName || child.email}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input type="date" value={fromDate} max={toDate} onChange={(e) => setFromDate(e.target.value)} className={selectClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input type="date" value={toDate} min={fromDate} onChange={(e) => setToDate(e.target.value)} className={selectClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Decision</label>
+            <select value={decisionFilter} onChange={(e) => setDecisionFilter(e.target.value as 'ALL' | 'ALLOWED' | 'BLOCKED')} className={selectClass}>
+              <option value="ALL">All</option>
+              <option value="ALLOWED">Allowed</option>
+              <option value="BLOCKED">Blocked</option>
+            </select>
+          </div>
+        </div>
+      </Card>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-600"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Events */}
+          <section className="lg:col-span-2">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium text-gray-900">Visits</h2>
+              <Badge color="blue">{filteredEvents.length} Events</Badge>
+            </div>
+            {filteredEvents.length === 0 ? (
+              <Card className="p-6 text-center text-gray-500 bg-gray-50 border border-gray-100">
+                No browsing activity for these filters.
+              </Card>
+            ) : (
+              <Card className="divide-y divide-gray-100">
+                {filteredEvents.map(event => (
+                  <div key={event.id} className={`p-4 flex justify-between items-start gap-4 ${alert?.activityIds.includes(event.id) ? 'bg-yellow-50' : ''}`}>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate" title={event.url}>{event.host || event.url}</p>
+                      <p className="text-xs text-gray-500 truncate" title={event.url}>{event.url}</p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        {childName(event.uid)} &middot; {new Date(event.timestamp).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <Badge color={event.decision === 'ALLOWED' ? 'green' : 'red'}>{event.decision}</Badge>
+                      {(event.reason || event.rule) && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          {event.reason ? REASON_LABELS[event.reason] || event.reason : 'Allowed by rule'}
+                          {event.rule ? `: ${event.rule.replace(/^category:/, '')}` : ''}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </Card>
+            )}
+          </section>
+
+          {/* Top Domains */}
+          <section>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Top Domains</h2>
+            <Card className="p-6">
+              {topDomains.length === 0 ? (
+                <p className="text-sm text-gray-400 italic">Nothing to show yet</p>
+              ) : (
+                <ul className="space-y-2">
+                  {topDomains.map(domain => (
+                    <li key={domain.host} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-800 truncate">{domain.host}</span>
+                      <span className="text-gray-500 flex-shrink-0 ml-2">
+                        {domain.total}
+                        {domain.blocked > 0 && <span className="text-red-600"> ({domain.blocked} blocked)</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FamilyHistory;
@@ -1,21 +1,57 @@
 import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../services/authContext';
 import {
   getPendingChildRequestsForParent,
   approveChildRequest,
   rejectChildRequest,
   suspendUser,
-  updateUserProfile
+  unsuspendUser
 } from '../services/userService';
 import {
   getFamilyByParent,
   getApprovedChildrenForParent,
-  generateFamilyInviteCode,
   updateFamilySettings,
-  getFamilyChildren
+  getFamilyChildren,
+  addDomainRule,
+  removeDomainRule,
+  updateChildSchedule,
+  updateChildFilterLevel,
+  updateChildFilterPolicy,
+  updateChildPause,
+  updateFamilyPause
 } from '../services/familyService';
-import { UserProfile, Family, FilterLevel, ApprovalStatus, UserRole } from '../types';
+import {
+  subscribeToPendingAccessRequests,
+  approveAccessRequest,
+  AccessRequestConflictError,
+  denyAccessRequest
+} from '../services/accessRequestService';
+import { UserProfile, Family, FilterLevel, FilterPolicy, BrowsingPause, ApprovalStatus, UserRole, DomainRule, WeeklySchedule, DailyQuota, AccessRequest, AccessGrant, AlertSettings } from '../types';
 import { Button, Card, Input, Badge } from '../components/UI';
+import { Modal } from '../components/Modal';
+import { ScheduleEditor } from '../components/ScheduleEditor';
+import { QuotaEditor, describeQuota } from '../components/QuotaEditor';
+import { PauseDialog } from '../components/PauseDialog';
+import { AlertsPanel } from '../components/AlertsPanel';
+import { AlertSettingsForm } from '../components/AlertSettingsForm';
+import { InviteList } from '../components/InviteList';
+import { ChildAccountForm } from '../components/ChildAccountForm';
+import { WEEKDAYS } from '../policy/schedule.js';
+import { resolveFilterLevel } from '../policy/filterLevel.js';
+import { resolveFilterPolicy } from '../policy/filterPolicies.js';
+import { isPauseActive } from '../policy/pause.js';
+
+const describePause = (pause: BrowsingPause) => pause.until
+  ? `Paused until ${new Date(pause.until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+  : 'Paused';
+
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Starting point when a parent first limits a child's hours
+const DEFAULT_SCHEDULE: WeeklySchedule = Object.fromEntries(
+  WEEKDAYS.map(day => [day, [{ start: '07:00', end: '21:00' }]])
+);
 
 const FamilyManagement: React.FC = () => {
   const { user, userProfile, isParent, isApproved } = useAuth();
@@ -28,9 +64,6 @@ const FamilyManagement: React.FC = () => {
   const [familyChildren, setFamilyChildren] = useState<UserProfile[]>([]);
   const [family, setFamily] = useState<Family | null>(null);
   
-  const [inviteCode, setInviteCode] = useState<string | null>(null);
-  const [isGeneratingCode, setIsGeneratingCode] = useState(false);
-  
   // Modal state for rejection
   const [rejectModalOpen, setRejectModalOpen] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
@@ -39,6 +72,30 @@ const FamilyManagement: React.FC = () => {
 
   // Filter level update state
   const [isUpdatingSettings, setIsUpdatingSettings] = useState(false);
+  const [updatingFilterChildUid, setUpdatingFilterChildUid] = useState<string | null>(null);
+
+  // "Pause internet" state: a child, or the whole family
+  const [pauseTarget, setPauseTarget] = useState<UserProfile | 'FAMILY' | null>(null);
+  const [isPausing, setIsPausing] = useState(false);
+
+  // Website rule editor state
+  const [rulePatterns, setRulePatterns] = useState<{ allow: string; block: string }>({ allow: '', block: '' });
+  const [isSavingRule, setIsSavingRule] = useState(false);
+
+  // Allowed hours modal state
+  const [scheduleChild, setScheduleChild] = useState<UserProfile | null>(null);
+  const [scheduleDraft, setScheduleDraft] = useState<WeeklySchedule>(DEFAULT_SCHEDULE);
+  const [scheduleTimeZone, setScheduleTimeZone] = useState(BROWSER_TIME_ZONE);
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+
+  // Child whose daily limit is being edited
+  const [quotaChild, setQuotaChild] = useState<UserProfile | null>(null);
+
+  // Site Requests State
+  const [siteRequests, setSiteRequests] = useState<AccessRequest[]>([]);
+  const [decidingRequestId, setDecidingRequestId] = useState<string | null>(null);
+  const [requestToDeny, setRequestToDeny] = useState<AccessRequest | null>(null);
+  const [denyNote, setDenyNote] = useState('');
 
   useEffect(() => {
     if (user && isParent && isApproved) {
@@ -48,6 +105,12 @@ const FamilyManagement: React.FC = () => {
     }
   }, [user, isParent, isApproved]);
 
+  // Site requests arrive live so a waiting child gets an answer without a page reload
+  useEffect(() => {
+    if (!family?.id) return;
+    return subscribeToPendingAccessRequests(family.id, setSiteRequests);
+  }, [family?.id]);
+
   const loadData = async () => {
     if (!user) return;
     setLoading(true);
@@ -140,12 +203,7 @@ const FamilyManagement: React.FC = () => {
   const handleUnsuspend = async (childUid: string) => {
     if (!user) return;
     try {
-      // We essentially re-approve/reactivate the user
-      // Using updateUserProfile to set status back to APPROVED
-      await updateUserProfile(childUid, {
-        approvalStatus: ApprovalStatus.APPROVED,
-        rejectedReason: '', // Clear rejection/suspension reason
-      });
+      await unsuspendUser(childUid);
       setSuccess("Child account reactivated");
       loadData();
     } catch (err) {
@@ -154,20 +212,51 @@ const FamilyManagement: React.FC = () => {
     }
   };
 
-  const handleGenerateInvite = async () => {
-    if (!family) return;
-    setIsGeneratingCode(true);
+  /**
+   * Pause a child or the whole family for some minutes, or with null until resumed; 'RESUME' lifts the pause.
+   * Takes effect on the child's Dashboard at once.
+   */
+  const handleSetPause = async (target: UserProfile | 'FAMILY', minutes: number | null | 'RESUME') => {
+    if (!user || !family) return;
+    const now = Date.now();
+    const pause: BrowsingPause | null = minutes === 'RESUME' ? null : {
+      pausedBy: user.uid,
+      pausedAt: now,
+      ...(minutes ? { until: now + minutes * 60 * 1000 } : {})
+    };
+    const who = target === 'FAMILY' ? 'the whole family' : (target.displayName || 'your child');
+
+    setIsPausing(true);
     try {
-      const code = await generateFamilyInviteCode(family.id);
-      setInviteCode(code);
+      if (target === 'FAMILY') {
+        await updateFamilyPause(family.id, pause);
+        setFamily(prev => prev ? { ...prev, settings: { ...prev.settings!, pause: pause || undefined } } : null);
+      } else {
+        await updateChildPause(target.uid, pause);
+        setFamilyChildren(prev => prev.map(child => (
+          child.uid === target.uid ? { ...child, pause: pause || undefined } : child
+        )));
+      }
+      setSuccess(pause ? `Internet paused for ${who}` : `Browsing resumed for ${who}`);
+      setPauseTarget(null);
     } catch (err) {
-      console.error("Error generating code:", err);
-      setError("Failed to generate invite code.");
+      console.error("Error updating pause:", err);
+      setError(pause ? "Failed to pause the internet." : "Failed to resume browsing.");
     } finally {
-      setIsGeneratingCode(false);
+      setIsPausing(false);
     }
   };
 
+  const handleAlertSettingsSaved = (settings: AlertSettings) => {
+    setFamily(prev => prev ? { ...prev, settings: { ...prev.settings!, alertSettings: settings } } : null);
+    setSuccess("Alert settings saved");
+  };
+
+  const handleChildAccountCreated = (child: UserProfile) => {
+    setFamilyChildren(prev => [...prev, child]);
+    setSuccess(`${child.displayName} can now sign in with the username "${child.username}" and their PIN`);
+  };
+
   const handleUpdateFilterLevel = async (level: FilterLevel) => {
     if (!family) return;
     setIsUpdatingSettings(true);
@@ -184,6 +273,174 @@ const FamilyManagement: React.FC = () => {
     }
   };
 
+  /**
+   * Selector values: "" for the family default, "level:<FilterLevel>" or "policy:<id>".
+   * Levels and custom policies are exclusive, so choosing one clears the other.
+   */
+  const handleUpdateChildFilter = async (child: UserProfile, value: string) => {
+    const [kind, id] = value.split(':');
+    const level = kind === 'level' ? id as FilterLevel : null;
+    const policyId = kind === 'policy' ? id : null;
+    setUpdatingFilterChildUid(child.uid);
+    try {
+      if (policyId) {
+        await updateChildFilterPolicy(child.uid, policyId);
+      } else {
+        await updateChildFilterLevel(child.uid, level);
+      }
+      setFamilyChildren(prev => prev.map(c => (
+        c.uid === child.uid ? { ...c, filterLevelOverride: level || undefined, filterPolicyId: policyId || undefined } : c
+      )));
+      const name = child.displayName || 'Your child';
+      setSuccess(policyId
+        ? `${name} now uses the "${family?.settings?.filterPolicies?.[policyId]?.name}" policy`
+        : level ? `${name} now uses the ${level} filter` : `${name} now follows the family default`);
+    } catch (err) {
+      console.error("Error updating child filter level:", err);
+      setError("Failed to update the filter level.");
+    } finally {
+      setUpdatingFilterChildUid(null);
+    }
+  };
+
+  const handleAddRule = async (list: 'allow' | 'block') => {
+    if (!family || !user) return;
+    const pattern = rulePatterns[list];
+    if (!pattern.trim()) return;
+
+    setIsSavingRule(true);
+    try {
+      const rule = await addDomainRule(family.id, list, pattern, user.uid);
+      const key = list === 'allow' ? 'allowRules' : 'blockRules';
+      setFamily(prev => prev ? {
+        ...prev,
+        settings: { ...prev.settings!, [key]: [...(prev.settings?.[key] || []), rule] }
+      } : null);
+      setRulePatterns(prev => ({ ...prev, [list]: '' }));
+      setSuccess(`${rule.pattern} added to the ${list} list`);
+    } catch (err: any) {
+      console.error("Error adding rule:", err);
+      setError(err.message || "Failed to add website rule.");
+    } finally {
+      setIsSavingRule(false);
+    }
+  };
+
+  const handleRemoveRule = async (list: 'allow' | 'block', rule: DomainRule) => {
+    if (!family) return;
+    setIsSavingRule(true);
+    try {
+      await removeDomainRule(family.id, list, rule);
+      const key = list === 'allow' ? 'allowRules' : 'blockRules';
+      setFamily(prev => prev ? {
+        ...prev,
+        settings: { ...prev.settings!, [key]: (prev.settings?.[key] || []).filter(r => r !== rule) }
+      } : null);
+      setSuccess(`${rule.pattern} removed from the ${list} list`);
+    } catch (err) {
+      console.error("Error removing rule:", err);
+      setError("Failed to remove website rule.");
+    } finally {
+      setIsSavingRule(false);
+    }
+  };
+
+  const handleApproveSiteRequest = async (request: AccessRequest, grant: AccessGrant) => {
+    if (!family || !user) return;
+    setDecidingRequestId(request.id);
+    try {
+      const allowRules = await approveAccessRequest(request, user.uid, grant, family.settings?.timeZone || BROWSER_TIME_ZONE);
+      setFamily(prev => prev ? {
+        ...prev,
+        settings: { ...prev.settings!, allowRules }
+      } : null);
+      setSuccess(`${request.pattern} unblocked for ${request.childName}`);
+    } catch (err) {
+      console.error("Error approving site request:", err);
+      setError(err instanceof AccessRequestConflictError ? err.message : "Failed to approve site request.");
+    } finally {
+      setDecidingRequestId(null);
+    }
+  };
+
+  const openDenyModal = (request: AccessRequest) => {
+    setRequestToDeny(request);
+    setDenyNote('');
+  };
+
+  const handleDenyConfirm = async () => {
+    if (!user || !requestToDeny) return;
+    setDecidingRequestId(requestToDeny.id);
+    try {
+      await denyAccessRequest(requestToDeny, user.uid, denyNote);
+      setSuccess(`Request for ${requestToDeny.pattern} denied`);
+      setRequestToDeny(null);
+    } catch (err) {
+      console.error("Error denying site request:", err);
+      setError("Failed to deny site request.");
+    } finally {
+      setDecidingRequestId(null);
+    }
+  };
+
+  const describeRule = (rule: DomainRule) => {
+    if (!rule.expiresAt) return null;
+    const child = familyChildren.find(c => c.uid === rule.forUid);
+    const until = new Date(rule.expiresAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+    return `until ${until}${child ? ` · ${child.displayName || child.email}` : ''}`;
+  };
+
+  const filterPolicies = Object.values<FilterPolicy>(family?.settings?.filterPolicies || {})
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  /** Current selector value for a child; a deleted policy shows as the family default. */
+  const describeChildFilter = (child: UserProfile) => {
+    const { policy, source } = resolveFilterPolicy(child, family);
+    if (source === 'POLICY') return `policy:${policy.id}`;
+    return source === 'CHILD' ? `level:${policy.preset}` : '';
+  };
+
+  const openScheduleModal = (child: UserProfile) => {
+    setScheduleChild(child);
+    setScheduleDraft(child.schedule || DEFAULT_SCHEDULE);
+    setScheduleTimeZone(family?.settings?.timeZone || BROWSER_TIME_ZONE);
+  };
+
+  const handleSaveSchedule = async (schedule: WeeklySchedule | null) => {
+    if (!scheduleChild) return;
+    setIsSavingSchedule(true);
+    try {
+      await updateChildSchedule(scheduleChild.uid, schedule);
+      // Schedules are evaluated in the family's time zone, shared by all children
+      if (schedule && family && family.settings?.timeZone !== scheduleTimeZone) {
+        await updateFamilySettings(family.id, { timeZone: scheduleTimeZone });
+        setFamily(prev => prev ? { ...prev, settings: { ...prev.settings!, timeZone: scheduleTimeZone } } : null);
+      }
+      setFamilyChildren(prev => prev.map(child => (
+        child.uid === scheduleChild.uid ? { ...child, schedule: schedule || undefined } : child
+      )));
+      setSuccess(schedule
+        ? `Allowed hours saved for ${scheduleChild.displayName || 'your child'}`
+        : `${scheduleChild.displayName || 'Your child'} can now browse at any time`);
+      setScheduleChild(null);
+    } catch (err) {
+      console.error("Error saving schedule:", err);
+      setError("Failed to save allowed hours.");
+    } finally {
+      setIsSavingSchedule(false);
+    }
+  };
+
+  const handleQuotaSaved = (child: UserProfile, quota: DailyQuota | null) => {
+    setFamilyChildren(prev => prev.map(c => (
+      c.uid === child.uid ? { ...c, dailyQuota: quota || undefined } : c
+    )));
+    setSuccess(quota
+      ? `Daily limits saved for ${child.displayName || 'your child'}`
+      : `Daily limits removed for ${child.displayName || 'your child'}`);
+    setQuotaChild(null);
+  };
+
   // Access Control
   if (!user) {
     return <div className="p-8 text-center">Please log in to manage your family.</div>;
@@ -215,11 +472,19 @@ const FamilyManagement: React.FC = () => {
     );
   }
 
+
   return (
     <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">Family Management</h1>
-        <p className="text-gray-600">Manage your children's access and family settings.</p>
+      <div className="mb-8 flex justify-between items-end">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Family Management</h1>
+          <p className="text-gray-600">Manage your children's access and family settings.</p>
+        </div>
+        <div className="flex gap-4">
+          <Link to="/family/policies" className="text-sm text-brand-600 hover:text-brand-700">Filter Policies &rarr;</Link>
+          <Link to="/family/history" className="text-sm text-brand-600 hover:text-brand-700">Browsing History &rarr;</Link>
+          <Link to="/family/audit" className="text-sm text-brand-600 hover:text-brand-700">Audit Log &rarr;</Link>
+        </div>
       </div>
 
       {/* Notifications */}
@@ -261,7 +526,12 @@ const FamilyManagement: React.FC = () => {
         
         {/* Left Column: Children Lists */}
         <div className="lg:col-span-2 space-y-8">
-          
+
+          {/* Alerts Section */}
+          <section>
+            <AlertsPanel familyId={family?.id} onError={setError} />
+          </section>
+
           {/* Pending Requests Section */}
           <section>
             <div className="flex items-center justify-between mb-4">
@@ -280,7 +550,7 @@ const FamilyManagement: React.FC = () => {
                     <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
                       <div>
                         <h3 className="text-md font-medium text-gray-900">{child.displayName || 'No Name'}</h3>
-                        <p className="text-sm text-gray-500">{child.email}</p>
+                        <p className="text-sm text-gray-500">{child.username ? `Username: ${child.username}` : child.email}</p>
                         <p className="text-xs text-gray-400 mt-1">
                           Registered: {new Date(child.createdAt).toLocaleDateString()}
                         </p>
@@ -308,11 +578,73 @@ const FamilyManagement: React.FC = () => {
             )}
           </section>
 
+          {/* Site Requests Section */}
+          <section>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium text-gray-900">Site Requests</h2>
+              {siteRequests.length > 0 && <Badge color="yellow">{siteRequests.length} Waiting</Badge>}
+            </div>
+
+            {siteRequests.length === 0 ? (
+              <Card className="p-6 text-center text-gray-500 bg-gray-50 border border-gray-100">
+                No blocked sites waiting for a decision.
+              </Card>
+            ) : (
+              <div className="space-y-4">
+                {siteRequests.map((request) => (
+                  <Card key={request.id} className="p-4">
+                    <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
+                      <div className="min-w-0">
+                        <h3 className="text-md font-medium text-gray-900">
+                          {request.childName} wants <span className="text-brand-600">{request.pattern}</span>
+                        </h3>
+                        <p className="text-xs text-gray-500 truncate" title={request.url}>{request.url}</p>
+                        <p className="text-sm text-gray-700 mt-2">&ldquo;{request.reason}&rdquo;</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {new Date(request.createdAt).toLocaleString()}
+                          {request.blockReason && <> &middot; Blocked by {request.blockReason === 'BLOCKED_CATEGORY' ? 'category' : 'family rule'}</>}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-2 flex-shrink-0">
+                        <Button size="sm" variant="secondary" onClick={() => handleApproveSiteRequest(request, 'FIFTEEN_MINUTES')} disabled={decidingRequestId === request.id}>
+                          15 min
+                        </Button>
+                        <Button size="sm" variant="secondary" onClick={() => handleApproveSiteRequest(request, 'TODAY')} disabled={decidingRequestId === request.id}>
+                          Today
+                        </Button>
+                        <Button size="sm" onClick={() => handleApproveSiteRequest(request, 'PERMANENT')} disabled={decidingRequestId === request.id}>
+                          Always
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => openDenyModal(request)} disabled={decidingRequestId === request.id}>
+                          Deny
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </section>
+
           {/* Approved Children Section */}
           <section>
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-lg font-medium text-gray-900">Your Children</h2>
-              <Badge color="blue">{familyChildren.length} Total</Badge>
+              <div className="flex items-center gap-3">
+                {familyChildren.length > 0 && (isPauseActive(family?.settings?.pause) ? (
+                  <>
+                    <span className="text-sm text-yellow-700">{describePause(family!.settings!.pause!)} for everyone</span>
+                    <Button size="sm" variant="secondary" onClick={() => handleSetPause('FAMILY', 'RESUME')} disabled={isPausing}>
+                      Resume All
+                    </Button>
+                  </>
+                ) : (
+                  <Button size="sm" variant="secondary" onClick={() => setPauseTarget('FAMILY')}>
+                    Pause Everyone
+                  </Button>
+                ))}
+                <Badge color="blue">{familyChildren.length} Total</Badge>
+              </div>
             </div>
 
             {familyChildren.length === 0 ? (
@@ -335,37 +667,89 @@ const FamilyManagement: React.FC = () => {
                       >
                         {child.approvalStatus}
                       </Badge>
-                      <span className="text-xs text-gray-400">
-                        Level: {child.filterLevel}
-                      </span>
+                      <select
+                        aria-label={`Filter level for ${child.displayName || 'child'}`}
+                        value={describeChildFilter(child)}
+                        onChange={(e) => handleUpdateChildFilter(child, e.target.value)}
+                        disabled={updatingFilterChildUid === child.uid}
+                        className="text-xs text-gray-600 border-gray-300 rounded-md py-1 pl-2 pr-7 focus:outline-none focus:ring-brand-500 focus:border-brand-500"
+                      >
+                        <option value="">Family default ({resolveFilterLevel(null, family).level.toLowerCase()})</option>
+                        {[FilterLevel.STRICT, FilterLevel.MODERATE, FilterLevel.NONE].map((level) => (
+                          <option key={level} value={`level:${level}`}>{level.toLowerCase()}</option>
+                        ))}
+                        {filterPolicies.length > 0 && (
+                          <optgroup label="Custom policies">
+                            {filterPolicies.map((policy) => (
+                              <option key={policy.id} value={`policy:${policy.id}`}>{policy.name}</option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
                     </div>
                     
                     <div className="mb-4">
                       <h3 className="font-medium text-gray-900 truncate">{child.displayName || 'Child'}</h3>
-                      <p className="text-sm text-gray-500 truncate">{child.email}</p>
+                      <p className="text-sm text-gray-500 truncate">{child.username ? `Username: ${child.username}` : child.email}</p>
                     </div>
 
-                    <div className="border-t pt-3 flex justify-end">
-                      {child.approvalStatus === ApprovalStatus.SUSPENDED ? (
-                        <Button 
-                          variant="secondary" 
-                          size="sm"
-                          className="text-green-600 hover:text-green-700 hover:bg-green-50"
-                          onClick={() => handleUnsuspend(child.uid)}
+                    <div className="border-t pt-3 flex justify-between items-center">
+                      <div className="flex flex-col items-start space-y-1">
+                        <button
+                          type="button"
+                          onClick={() => openScheduleModal(child)}
+                          className="text-xs text-gray-500 hover:text-brand-600"
                         >
-                          Unsuspend
-                        </Button>
-                      ) : (
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                          onClick={() => handleSuspend(child.uid)}
+                          Hours: {child.schedule ? 'Limited' : 'Any time'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setQuotaChild(child)}
+                          className="text-xs text-gray-500 hover:text-brand-600"
                         >
-                          Suspend
-                        </Button>
-                      )}
+                          Daily limit: {describeQuota(child.dailyQuota)}
+                        </button>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {child.approvalStatus === ApprovalStatus.APPROVED && (isPauseActive(child.pause) ? (
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            title={describePause(child.pause!)}
+                            onClick={() => handleSetPause(child, 'RESUME')}
+                            disabled={isPausing}
+                          >
+                            Resume
+                          </Button>
+                        ) : (
+                          <Button variant="secondary" size="sm" onClick={() => setPauseTarget(child)}>
+                            Pause
+                          </Button>
+                        ))}
+                        {child.approvalStatus === ApprovalStatus.SUSPENDED ? (
+                          <Button 
+                            variant="secondary" 
+                            size="sm"
+                            className="text-green-600 hover:text-green-700 hover:bg-green-50"
+                            onClick={() => handleUnsuspend(child.uid)}
+                          >
+                            Unsuspend
+                          </Button>
+                        ) : (
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            onClick={() => handleSuspend(child.uid)}
+                          >
+                            Suspend
+                          </Button>
+                        )}
+                      </div>
                     </div>
+                    {isPauseActive(child.pause) && (
+                      <p className="mt-2 text-xs text-yellow-700">{describePause(child.pause!)}</p>
+                    )}
                   </Card>
                 ))}
               </div>
@@ -393,31 +777,18 @@ const FamilyManagement: React.FC = () => {
                 <div className="flex-grow border-t border-gray-200"></div>
               </div>
 
-              <div className="mt-4 text-center">
-                {inviteCode ? (
-                  <div className="mb-4">
-                    <div className="text-3xl font-mono font-bold text-brand-600 tracking-wider mb-2">
-                      {inviteCode}
-                    </div>
-                    <p className="text-xs text-brand-500">
-                      Valid for 48 hours
-                    </p>
-                  </div>
-                ) : (
-                  <div className="mb-4 text-gray-400 text-sm italic">
-                    No active code generated
-                  </div>
-                )}
-                
-                <Button 
-                  onClick={handleGenerateInvite} 
-                  isLoading={isGeneratingCode}
-                  variant="secondary"
-                  className="w-full"
-                >
-                  {inviteCode ? 'Generate New Code' : 'Generate Invite Code'}
-                </Button>
-              </div>
+              <InviteList familyId={family?.id} onSuccess={setSuccess} onError={setError} />
+            </Card>
+          </section>
+
+          {/* Child Account Section */}
+          <section>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Create a Child Account</h2>
+            <Card className="p-6">
+              <p className="text-sm text-gray-600 mb-4">
+                For children without an email address. They sign in with a username and PIN, and are approved into your family right away.
+              </p>
+              <ChildAccountForm familyId={family?.id} onCreated={handleChildAccountCreated} onError={setError} />
             </Card>
           </section>
 
@@ -438,6 +809,7 @@ const FamilyManagement: React.FC = () => {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Default Filter Level
                 </label>
+                <p className="text-xs text-gray-500 mb-2">Applies to every child without their own level.</p>
                 <div className="space-y-2">
                   {[FilterLevel.STRICT, FilterLevel.MODERATE, FilterLevel.NONE].map((level) => (
                     <div key={level} className="flex items-center">
@@ -460,67 +832,235 @@ const FamilyManagement: React.FC = () => {
             </Card>
           </section>
 
+          {/* Alert Settings Section */}
+          <section>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Alert Settings</h2>
+            {family && (
+              <AlertSettingsForm familyId={family.id} settings={family.settings} onSaved={handleAlertSettingsSaved} onError={setError} />
+            )}
+          </section>
+
+          {/* Website Rules Section */}
+          <section>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Website Rules</h2>
+            <Card className="p-6 space-y-6">
+              <p className="text-xs text-gray-500">
+                Use <code>example.com</code> for one site, <code>*.example.com</code> to include subdomains,
+                or <code>example.com/videos</code> for part of a site. Blocked sites win over allowed ones.
+              </p>
+              {(['allow', 'block'] as const).map((list) => {
+                // Expired temporary grants stay stored but no longer apply
+                const rules = ((list === 'allow' ? family?.settings?.allowRules : family?.settings?.blockRules) || [])
+                  .filter(rule => !rule.expiresAt || rule.expiresAt > Date.now());
+                return (
+                  <div key={list}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {list === 'allow' ? 'Always Allow' : 'Always Block'}
+                    </label>
+                    <form
+                      className="flex gap-2 mb-3"
+                      onSubmit={(e) => { e.preventDefault(); handleAddRule(list); }}
+                    >
+                      <Input
+                        value={rulePatterns[list]}
+                        onChange={(e) => setRulePatterns(prev => ({ ...prev, [list]: e.target.value }))}
+                        placeholder={list === 'allow' ? 'e.g. khanacademy.org' : 'e.g. *.reddit.com'}
+                        disabled={isSavingRule}
+                      />
+                      <Button type="submit" variant="secondary" size="sm" disabled={isSavingRule || !rulePatterns[list].trim()}>
+                        Add
+                      </Button>
+                    </form>
+                    {rules.length === 0 ? (
+                      <p className="text-xs text-gray-400 italic">No rules yet</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {rules.map((rule) => (
+                          <li key={`${rule.pattern}-${rule.createdAt}`} className="flex items-center justify-between text-sm">
+                            <span>
+                              <Badge color={list === 'allow' ? 'green' : 'red'}>{rule.pattern}</Badge>
+                              {describeRule(rule) && <span className="ml-2 text-xs text-gray-400">{describeRule(rule)}</span>}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveRule(list, rule)}
+                              disabled={isSavingRule}
+                              className="text-xs text-gray-400 hover:text-red-600"
+                            >
+                              Remove
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </Card>
+          </section>
+
         </div>
       </div>
 
       {/* Rejection Modal */}
       {rejectModalOpen && (
-        <div className="fixed inset-0 z-10 overflow-y-auto">
-          <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
-            {/* Background overlay */}
-            <div className="fixed inset-0 transition-opacity" aria-hidden="true">
-              <div className="absolute inset-0 bg-gray-500 opacity-75"></div>
-            </div>
+        <Modal
+          title="Reject Child Request"
+          icon={
+            <svg className="h-6 w-6 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+          }
+          actions={
+            <>
+              <Button
+                variant="danger"
+                onClick={handleRejectConfirm}
+                isLoading={isRejecting}
+                className="w-full sm:ml-3 sm:w-auto"
+              >
+                Reject
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => setRejectModalOpen(false)}
+                disabled={isRejecting}
+                className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+              >
+                Cancel
+              </Button>
+            </>
+          }
+        >
+          <div className="mt-2">
+            <p className="text-sm text-gray-500 mb-4">
+              Please provide a reason for rejecting this request.
+            </p>
+            <Input
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder="Reason for rejection (e.g. Unknown email)"
+              autoFocus
+            />
+          </div>
+        </Modal>
+      )}
 
-            {/* Modal panel */}
-            <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
-            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
-              <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
-                <div className="sm:flex sm:items-start">
-                  <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-red-100 sm:mx-0 sm:h-10 sm:w-10">
-                    <svg className="h-6 w-6 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                    </svg>
-                  </div>
-                  <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
-                    <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
-                      Reject Child Request
-                    </h3>
-                    <div className="mt-2">
-                      <p className="text-sm text-gray-500 mb-4">
-                        Please provide a reason for rejecting this request.
-                      </p>
-                      <Input
-                        value={rejectReason}
-                        onChange={(e) => setRejectReason(e.target.value)}
-                        placeholder="Reason for rejection (e.g. Unknown email)"
-                        autoFocus
-                      />
-                    </div>
-                  </div>
-                </div>
-              </div>
-              <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
-                <Button
-                  variant="danger"
-                  onClick={handleRejectConfirm}
-                  isLoading={isRejecting}
-                  className="w-full sm:ml-3 sm:w-auto"
-                >
-                  Reject
-                </Button>
+      {/* Deny Site Request Modal */}
+      {requestToDeny && (
+        <Modal
+          title={`Keep ${requestToDeny.pattern} Blocked`}
+          actions={
+            <>
+              <Button
+                variant="danger"
+                onClick={handleDenyConfirm}
+                isLoading={decidingRequestId === requestToDeny.id}
+                className="w-full sm:ml-3 sm:w-auto"
+              >
+                Deny
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => setRequestToDeny(null)}
+                disabled={decidingRequestId === requestToDeny.id}
+                className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+              >
+                Cancel
+              </Button>
+            </>
+          }
+        >
+          <p className="mt-2 text-sm text-gray-500 mb-4">
+            Optionally tell {requestToDeny.childName} why.
+          </p>
+          <Input
+            value={denyNote}
+            onChange={(e) => setDenyNote(e.target.value)}
+            placeholder="e.g. Let's look at it together after dinner"
+            autoFocus
+          />
+        </Modal>
+      )}
+
+      {/* Allowed Hours Modal */}
+      {scheduleChild && (
+        <Modal
+          title={`Allowed Hours for ${scheduleChild.displayName || 'Child'}`}
+          width="3xl"
+          actions={
+            <>
+              <Button
+                onClick={() => handleSaveSchedule(scheduleDraft)}
+                isLoading={isSavingSchedule}
+                className="w-full sm:ml-3 sm:w-auto"
+              >
+                Save Hours
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => setScheduleChild(null)}
+                disabled={isSavingSchedule}
+                className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+              >
+                Cancel
+              </Button>
+              {scheduleChild.schedule && (
                 <Button
-                  variant="secondary"
-                  onClick={() => setRejectModalOpen(false)}
-                  disabled={isRejecting}
-                  className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+                  variant="ghost"
+                  onClick={() => handleSaveSchedule(null)}
+                  disabled={isSavingSchedule}
+                  className="mt-3 w-full sm:mt-0 sm:w-auto sm:mr-auto"
                 >
-                  Cancel
+                  Remove Limit
                 </Button>
-              </div>
-            </div>
+              )}
+            </>
+          }
+        >
+          <p className="mt-1 text-sm text-gray-500 mb-4">
+            Outside the green hours the proxy refuses every request.
+          </p>
+
+          <ScheduleEditor schedule={scheduleDraft} onChange={setScheduleDraft} disabled={isSavingSchedule} />
+
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Family Time Zone
+            </label>
+            <select
+              value={scheduleTimeZone}
+              onChange={(e) => setScheduleTimeZone(e.target.value)}
+              disabled={isSavingSchedule}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm sm:text-sm focus:outline-none focus:ring-brand-500 focus:border-brand-500"
+            >
+              {(typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [scheduleTimeZone]).map(zone => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-400">Applies to every child in the family.</p>
           </div>
-        </div>
+        </Modal>
+      )}
+
+      {/* Pause Internet Modal */}
+      {pauseTarget && (
+        <PauseDialog
+          target={pauseTarget}
+          isPausing={isPausing}
+          onPause={(minutes) => handleSetPause(pauseTarget, minutes)}
+          onClose={() => setPauseTarget(null)}
+        />
+      )}
+
+      {/* Daily Limit Modal */}
+      {quotaChild && (
+        <QuotaEditor
+          child={quotaChild}
+          onSaved={(quota) => handleQuotaSaved(quotaChild, quota)}
+          onClose={() => setQuotaChild(null)}
+          onError={setError}
+        />
       )}
 
     </div>
@@ -0,0 +1,495 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../services/authContext';
+import {
+  getFamilyByParent,
+  getFamilyChildren,
+  buildPolicyRules,
+  createFilterPolicyId,
+  saveFilterPolicy,
+  deleteFilterPolicy,
+  updateChildFilterPolicy
+} from '../services/familyService';
+import { Family, FilterLevel, FilterPolicy, SafeSearchMode, UserProfile } from '../types';
+import { Button, Card, Input, Badge } from '../components/UI';
+import { Modal } from '../components/Modal';
+import { CATEGORY_LABELS } from '../policy/categories.js';
+import { PRESET_POLICIES } from '../policy/filterPolicies.js';
+
+const SAFE_SEARCH_LABELS: Record<SafeSearchMode, string> = {
+  STRICT: 'Strict',
+  MODERATE: 'Moderate',
+  OFF: 'Off'
+};
+
+const CATEGORIES = Object.entries(CATEGORY_LABELS) as [string, string][];
+
+const describeCategories = (categories: string[]) => categories.length === 0
+  ? 'Nothing'
+  : categories.map(category => CATEGORY_LABELS[category as keyof typeof CATEGORY_LABELS] || category).join(', ');
+
+/** The policy being edited; rule lists are edited as one pattern per line. */
+interface PolicyDraft {
+  id: string;
+  isNew: boolean;
+  name: string;
+  blockedCategories: string[];
+  safeSearch: SafeSearchMode;
+  stripScripts: boolean;
+  allowText: string;
+  blockText: string;
+  childUids: string[];
+  basedOn?: FilterLevel;
+}
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const FilterPolicies: React.FC = () => {
+  const { user, isParent, isApproved } = useAuth();
+
+  const [family, setFamily] = useState<Family | null>(null);
+  const [children, setChildren] = useState<UserProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Editor and delete confirmation state
+  const [draft, setDraft] = useState<PolicyDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [policyToDelete, setPolicyToDelete] = useState<FilterPolicy | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!user || !isParent || !isApproved) {
+      setLoading(false);
+      return;
+    }
+    const loadFamily = async () => {
+      try {
+        const fam = await getFamilyByParent(user.uid);
+        setFamily(fam);
+        if (fam) {
+          setChildren(await getFamilyChildren(fam.id));
+        }
+      } catch (err) {
+        console.error("Error loading family:", err);
+        setError("Failed to load family data.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadFamily();
+  }, [user, isParent, isApproved]);
+
+  const policies = Object.values<FilterPolicy>(family?.settings?.filterPolicies || {})
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const childrenOn = (policyId: string) => children.filter(child => child.filterPolicyId === policyId);
+
+  const openClone = (preset: typeof PRESET_POLICIES[number]) => {
+    setDraftError(null);
+    setDraft({
+      id: createFilterPolicyId(),
+      isNew: true,
+      name: `${preset.name} (copy)`,
+      blockedCategories: [...preset.blockedCategories],
+      safeSearch: preset.safeSearch,
+      stripScripts: preset.stripScripts,
+      allowText: '',
+      blockText: '',
+      childUids: [],
+      basedOn: preset.preset as FilterLevel
+    });
+  };
+
+  const openEdit = (policy: FilterPolicy) => {
+    setDraftError(null);
+    setDraft({
+      id: policy.id,
+      isNew: false,
+      name: policy.name,
+      blockedCategories: [...policy.blockedCategories],
+      safeSearch: policy.safeSearch,
+      stripScripts: policy.stripScripts,
+      allowText: policy.allowRules.map(rule => rule.pattern).join('\n'),
+      blockText: policy.blockRules.map(rule => rule.pattern).join('\n'),
+      childUids: childrenOn(policy.id).map(child => child.uid),
+      basedOn: policy.basedOn
+    });
+  };
+
+  const toggleDraftItem = (field: 'blockedCategories' | 'childUids', value: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      [field]: prev[field].includes(value) ? prev[field].filter(item => item !== value) : [...prev[field], value]
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !family || !user) return;
+
+    const name = draft.name.trim();
+    if (!name) {
+      setDraftError("Give the policy a name.");
+      return;
+    }
+
+    const existing = family.settings?.filterPolicies?.[draft.id];
+    let allowRules, blockRules;
+    try {
+      allowRules = buildPolicyRules(toLines(draft.allowText), user.uid, existing?.allowRules);
+      blockRules = buildPolicyRules(toLines(draft.blockText), user.uid, existing?.blockRules);
+    } catch (err: any) {
+      setDraftError(err.message);
+      return;
+    }
+
+    const now = Date.now();
+    const policy: FilterPolicy = {
+      id: draft.id,
+      name,
+      blockedCategories: draft.blockedCategories,
+      safeSearch: draft.safeSearch,
+      stripScripts: draft.stripScripts,
+      allowRules,
+      blockRules,
+      // Firestore rejects undefined fields
+      ...(draft.basedOn ? { basedOn: draft.basedOn } : {}),
+      createdBy: existing?.createdBy || user.uid,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    setIsSaving(true);
+    setDraftError(null);
+    try {
+      await saveFilterPolicy(family.id, policy);
+
+      // Children unticked here go back to the family default
+      const previous = childrenOn(policy.id).map(child => child.uid);
+      const added = draft.childUids.filter(uid => !previous.includes(uid));
+      const removed = previous.filter(uid => !draft.childUids.includes(uid));
+      await Promise.all([
+        ...added.map(uid => updateChildFilterPolicy(uid, policy.id)),
+        ...removed.map(uid => updateChildFilterPolicy(uid, null))
+      ]);
+
+      setFamily(prev => prev ? {
+        ...prev,
+        settings: { ...prev.settings!, filterPolicies: { ...prev.settings?.filterPolicies, [policy.id]: policy } }
+      } : null);
+      setChildren(prev => prev.map(child => {
+        if (added.includes(child.uid)) return { ...child, filterPolicyId: policy.id, filterLevelOverride: undefined };
+        if (removed.includes(child.uid)) return { ...child, filterPolicyId: undefined, filterLevelOverride: undefined };
+        return child;
+      }));
+      setSuccess(`Saved "${policy.name}"`);
+      setDraft(null);
+    } catch (err) {
+      console.error("Error saving filter policy:", err);
+      setDraftError("Failed to save the policy.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!policyToDelete || !family) return;
+    setIsDeleting(true);
+    try {
+      const assigned = childrenOn(policyToDelete.id).map(child => child.uid);
+      await deleteFilterPolicy(family.id, policyToDelete.id, assigned);
+      setFamily(prev => {
+        if (!prev) return null;
+        const { [policyToDelete.id]: _deleted, ...rest } = prev.settings?.filterPolicies || {};
+        return { ...prev, settings: { ...prev.settings!, filterPolicies: rest } };
+      });
+      setChildren(prev => prev.map(child => (
+        assigned.includes(child.uid) ? { ...child, filterPolicyId: undefined } : child
+      )));
+      setSuccess(`Deleted "${policyToDelete.name}"`);
+      setPolicyToDelete(null);
+    } catch (err) {
+      console.error("Error deleting filter policy:", err);
+      setError("Failed to delete the policy.");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (!user) {
+    return <div className="p-8 text-center">Please log in to manage filter policies.</div>;
+  }
+
+  if (!isParent || !isApproved) {
+    return <div className="p-8 text-center">Access Denied: Only parents can access this page.</div>;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-600"></div>
+      </div>
+    );
+  }
+
+  const textareaClass = "block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm sm:text-sm font-mono focus:outline-none focus:ring-brand-500 focus:border-brand-500";
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex justify-between items-end">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Filter Policies</h1>
+          <p className="text-gray-600">Tailor filtering to each child by cloning a preset and adjusting it.</p>
+        </div>
+        <Link to="/family" className="text-sm text-brand-600 hover:text-brand-700">&larr; Family Management</Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="mb-4 bg-green-50 border-l-4 border-green-400 p-4">
+          <p className="text-sm text-green-700">{success}</p>
+        </div>
+      )}
+
+      {/* Presets */}
+      <section className="mb-8">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Presets</h2>
+        <div className="grid gap-4 sm:grid-cols-3">
+          {PRESET_POLICIES.map((preset) => (
+            <Card key={preset.id} className="p-4 flex flex-col">
+              <h3 className="font-medium text-gray-900">{preset.name}</h3>
+              <p className="mt-2 text-sm text-gray-500 flex-grow">
+                Blocks: {describeCategories(preset.blockedCategories)}
+                <br />
+                SafeSearch: {SAFE_SEARCH_LABELS[preset.safeSearch]}
+              </p>
+              <div className="mt-4">
+                <Button size="sm" variant="secondary" onClick={() => openClone(preset)} disabled={!family}>
+                  Clone
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      </section>
+
+      {/* Custom policies */}
+      <section>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-gray-900">Your Policies</h2>
+          <Badge color="blue">{policies.length} Total</Badge>
+        </div>
+
+        {policies.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-gray-500">No custom policies yet. Clone a preset above to create one.</p>
+          </Card>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {policies.map((policy) => {
+              const assigned = childrenOn(policy.id);
+              return (
+                <Card key={policy.id} className="p-4">
+                  <div className="flex justify-between items-start mb-2">
+                    <h3 className="font-medium text-gray-900 truncate">{policy.name}</h3>
+                    {policy.basedOn && <Badge color="blue">From {policy.basedOn.toLowerCase()}</Badge>}
+                  </div>
+                  <dl className="text-sm text-gray-500 space-y-1">
+                    <div><dt className="inline font-medium">Blocks: </dt><dd className="inline">{describeCategories(policy.blockedCategories)}</dd></div>
+                    <div><dt className="inline font-medium">SafeSearch: </dt><dd className="inline">{SAFE_SEARCH_LABELS[policy.safeSearch]}</dd></div>
+                    <div><dt className="inline font-medium">Scripts: </dt><dd className="inline">{policy.stripScripts ? 'Removed' : 'Allowed'}</dd></div>
+                    <div>
+                      <dt className="inline font-medium">Extra rules: </dt>
+                      <dd className="inline">{policy.allowRules.length} allowed, {policy.blockRules.length} blocked</dd>
+                    </div>
+                    <div>
+                      <dt className="inline font-medium">Used by: </dt>
+                      <dd className="inline">{assigned.length ? assigned.map(child => child.displayName || child.email).join(', ') : 'No one yet'}</dd>
+                    </div>
+                  </dl>
+                  <div className="border-t mt-3 pt-3 flex justify-end gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => openEdit(policy)}>Edit</Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => setPolicyToDelete(policy)}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      {/* Editor Modal */}
+      {draft && (
+        <Modal
+          title={draft.isNew ? 'New Filter Policy' : `Edit ${draft.name || 'Policy'}`}
+          width="2xl"
+          onSubmit={handleSave}
+          actions={
+            <>
+              <Button type="submit" isLoading={isSaving} className="w-full sm:ml-3 sm:w-auto">
+                Save Policy
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => setDraft(null)}
+                disabled={isSaving}
+                className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+              >
+                Cancel
+              </Button>
+            </>
+          }
+        >
+          <div className="mt-5 space-y-5">
+            <Input
+              label="Name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Little ones"
+              maxLength={60}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Blocked Categories</label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {CATEGORIES.map(([category, label]) => (
+                  <label key={category} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.blockedCategories.includes(category)}
+                      onChange={() => toggleDraftItem('blockedCategories', category)}
+                      className="h-4 w-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
+                    />
+                    <span className="ml-2">{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">SafeSearch</label>
+                <select
+                  value={draft.safeSearch}
+                  onChange={(e) => setDraft({ ...draft, safeSearch: e.target.value as SafeSearchMode })}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm sm:text-sm focus:outline-none focus:ring-brand-500 focus:border-brand-500"
+                >
+                  {(Object.keys(SAFE_SEARCH_LABELS) as SafeSearchMode[]).map(mode => (
+                    <option key={mode} value={mode}>{SAFE_SEARCH_LABELS[mode]}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">Forced on Google, Bing, DuckDuckGo and YouTube.</p>
+              </div>
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700 mt-6">
+                  <input
+                    type="checkbox"
+                    checked={draft.stripScripts}
+                    onChange={(e) => setDraft({ ...draft, stripScripts: e.target.checked })}
+                    className="h-4 w-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
+                  />
+                  <span className="ml-2">Remove scripts from pages</span>
+                </label>
+                <p className="mt-1 text-xs text-gray-500">Blocks pop-ups, trackers and most games; some sites will not work.</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Also Allow</label>
+                <textarea
+                  value={draft.allowText}
+                  onChange={(e) => setDraft({ ...draft, allowText: e.target.value })}
+                  rows={4}
+                  placeholder="one site per line"
+                  className={textareaClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Also Block</label>
+                <textarea
+                  value={draft.blockText}
+                  onChange={(e) => setDraft({ ...draft, blockText: e.target.value })}
+                  rows={4}
+                  placeholder="one site per line"
+                  className={textareaClass}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 -mt-3">
+              Added to the family's website rules. Blocked sites still win over allowed ones.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Use for</label>
+              {children.length === 0 ? (
+                <p className="text-sm text-gray-500">No children in your family yet.</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {children.map(child => (
+                    <label key={child.uid} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={draft.childUids.includes(child.uid)}
+                        onChange={() => toggleDraftItem('childUids', child.uid)}
+                        className="h-4 w-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
+                      />
+                      <span className="ml-2 truncate">{child.displayName || child.email}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {draftError && <p className="text-sm text-red-600">{draftError}</p>}
+          </div>
+        </Modal>
+      )}
+
+      {/* Delete Modal */}
+      {policyToDelete && (
+        <Modal
+          title={`Delete ${policyToDelete.name}?`}
+          actions={
+            <>
+              <Button variant="danger" onClick={handleDeleteConfirm} isLoading={isDeleting} className="w-full sm:ml-3 sm:w-auto">
+                Delete Policy
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => setPolicyToDelete(null)}
+                disabled={isDeleting}
+                className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+              >
+                Cancel
+              </Button>
+            </>
+          }
+        >
+          <p className="mt-2 text-sm text-gray-500">
+            {childrenOn(policyToDelete.id).length > 0
+              ? 'Children using it will go back to the family default filter level.'
+              : 'No children are using this policy.'}
+          </p>
+        </Modal>
+      )}
+    </div>
+  );
+};
+
+export default FilterPolicies;
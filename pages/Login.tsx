@@ -4,6 +4,9 @@ import { auth, googleProvider } from '../firebase';
 import { Button, Input, Card } from '../components/UI';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../services/authContext';
+import { InviteCodeError } from '../services/inviteService';
+import { childAccountEmail } from '../services/childAccountService';
+import { ApprovalStatus } from '../types';
 
 const Login: React.FC = () => {
   const [isLogin, setIsLogin] = useState(true);
@@ -13,10 +16,18 @@ const Login: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+
+  // Child sign-in: username and PIN for accounts a parent created without an email
+  const [childSignIn, setChildSignIn] = useState(false);
+  const [username, setUsername] = useState('');
+  const [pin, setPin] = useState('');
   
   // Registration Role State
   const [role, setRole] = useState<'parent' | 'child'>('parent');
   const [parentEmail, setParentEmail] = useState('');
+  // Children join with their parent's email (parent approves) or a family invite code
+  const [joinMethod, setJoinMethod] = useState<'email' | 'code'>('email');
+  const [inviteCode, setInviteCode] = useState('');
 
   const [error, setError] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
@@ -73,7 +84,11 @@ const Login: React.FC = () => {
     try {
       if (isLogin) {
         // --- LOGIN FLOW ---
-        await signIn(email, password);
+        if (childSignIn) {
+          await signIn(childAccountEmail(username), pin);
+        } else {
+          await signIn(email, password);
+        }
         navigate('/');
       } else {
         // --- REGISTER FLOW ---
@@ -86,7 +101,11 @@ const Login: React.FC = () => {
         }
 
         // Child specific validation
-        if (role === 'child') {
+        if (role === 'child' && joinMethod === 'code') {
+           if (!inviteCode.trim()) {
+             throw new Error('An invite code is required to join with a code.');
+           }
+        } else if (role === 'child') {
            if (!parentEmail.trim()) {
              throw new Error('Parent email is required for child registration.');
            }
@@ -96,11 +115,12 @@ const Login: React.FC = () => {
         }
         
         // Execute Sign Up via Context
-        await signUp(
+        const profile = await signUp(
             email, 
             password, 
             role, 
-            role === 'child' ? parentEmail : undefined
+            role === 'child' && joinMethod === 'email' ? parentEmail : undefined,
+            role === 'child' && joinMethod === 'code' ? inviteCode : undefined
         );
         
         // Update the user's display name if provided
@@ -114,14 +134,17 @@ const Login: React.FC = () => {
         // Set Success Message
         const message = role === 'parent' 
             ? "Registration successful! Please wait for admin approval."
-            : "Registration successful! Please wait for your parent to approve your account.";
+            : profile.approvalStatus === ApprovalStatus.APPROVED
+              ? "Registration successful! You've joined your family and can start browsing."
+              : "Registration successful! Please wait for your parent to approve your account.";
         
         setSuccessMessage(message);
         // We stay on the page to show the success message
       }
     } catch (err: any) {
       // Handle manual validation errors
-      if (err.message === 'Passwords do not match.' || 
+      if (err instanceof InviteCodeError ||
+          err.message === 'Passwords do not match.' || 
           err.message.includes('characters') || 
           err.message.includes('required') || 
           err.message.includes('Parent email')) {
@@ -145,6 +168,9 @@ const Login: React.FC = () => {
     let message = 'Failed to authenticate.';
     if (err.code === 'auth/wrong-password') message = 'Incorrect password.';
     if (err.code === 'auth/user-not-found') message = 'No account found with this email.';
+    if (childSignIn && ['auth/wrong-password', 'auth/user-not-found', 'auth/invalid-credential', 'auth/invalid-email'].includes(err.code)) {
+      message = 'Incorrect username or PIN.';
+    }
     if (err.code === 'auth/email-already-in-use') message = 'Email is already registered. Please sign in instead.';
     if (err.code === 'auth/weak-password') message = 'Password should be at least 6 characters.';
     
@@ -272,23 +298,61 @@ const Login: React.FC = () => {
                 </div>
               )}
 
-              <Input
-                label="Email address"
-                type="email"
-                required
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="name@example.com"
-              />
+              {isLogin && childSignIn ? (
+                <>
+                  <Input
+                    label="Username"
+                    type="text"
+                    required
+                    autoCapitalize="none"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="The username your parent gave you"
+                  />
+
+                  <Input
+                    label="PIN"
+                    type="password"
+                    inputMode="numeric"
+                    required
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value)}
+                    placeholder="••••••"
+                  />
+                </>
+              ) : (
+                <>
+                  <Input
+                    label="Email address"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="name@example.com"
+                  />
+
+                  <Input
+                    label="Password"
+                    type="password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="••••••••"
+                  />
+                </>
+              )}
 
-              <Input
-                label="Password"
-                type="password"
-                required
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="••••••••"
-              />
+              {isLogin && (
+                <p className="text-sm text-center">
+                  <button
+                    type="button"
+                    onClick={() => { setChildSignIn(!childSignIn); setError(''); }}
+                    className="font-medium text-brand-600 hover:text-brand-500"
+                  >
+                    {childSignIn ? 'Sign in with email instead' : 'No email? Sign in with a username and PIN'}
+                  </button>
+                </p>
+              )}
 
               {!isLogin && (
                  <div className="animate-fade-in-down space-y-5">
@@ -303,19 +367,53 @@ const Login: React.FC = () => {
 
                   {role === 'child' && (
                      <div className="bg-blue-50 p-4 rounded-lg border border-blue-100">
-                        <h4 className="text-sm font-medium text-blue-900 mb-2">Parent Approval Required</h4>
-                        <Input
-                          label="Parent's Email Address"
-                          type="email"
-                          required
-                          value={parentEmail}
-                          onChange={(e) => setParentEmail(e.target.value)}
-                          placeholder="parent@example.com"
-                          className="bg-white"
-                        />
-                        <p className="text-xs text-blue-700 mt-2">
-                           Your parent will need to approve your account before you can sign in.
-                        </p>
+                        <div className="flex gap-4 mb-3 text-sm">
+                           <button
+                              type="button"
+                              onClick={() => setJoinMethod('email')}
+                              className={joinMethod === 'email' ? 'font-medium text-blue-900 underline' : 'text-blue-700 hover:text-blue-900'}
+                           >
+                              Parent's email
+                           </button>
+                           <button
+                              type="button"
+                              onClick={() => setJoinMethod('code')}
+                              className={joinMethod === 'code' ? 'font-medium text-blue-900 underline' : 'text-blue-700 hover:text-blue-900'}
+                           >
+                              Invite code
+                           </button>
+                        </div>
+                        {joinMethod === 'email' ? (
+                           <>
+                              <Input
+                                label="Parent's Email Address"
+                                type="email"
+                                required
+                                value={parentEmail}
+                                onChange={(e) => setParentEmail(e.target.value)}
+                                placeholder="parent@example.com"
+                                className="bg-white"
+                              />
+                              <p className="text-xs text-blue-700 mt-2">
+                                 Your parent will need to approve your account before you can sign in.
+                              </p>
+                           </>
+                        ) : (
+                           <>
+                              <Input
+                                label="Family Invite Code"
+                                type="text"
+                                required
+                                value={inviteCode}
+                                onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                                placeholder="e.g. K7PX3Q"
+                                className="bg-white font-mono tracking-wider"
+                              />
+                              <p className="text-xs text-blue-700 mt-2">
+                                 Ask your parent for the code on their Family page.
+                              </p>
+                           </>
+                        )}
                      </div>
                   )}
                 </div>
@@ -406,11 +504,11 @@ const Login: React.FC = () => {
             <div className="mt-8 bg-gray-50 rounded-lg p-4 border border-gray-100">
                <p className="text-xs text-gray-500 text-center uppercase tracking-wide font-semibold mb-3">Demo Accounts</p>
                <div className="grid grid-cols-2 gap-4">
-                 <div onClick={() => { setEmail('parent@example.com'); setPassword('pass123'); setIsLogin(true); }} className="cursor-pointer hover:bg-white p-2 rounded transition-colors text-center border border-transparent hover:border-gray-200">
+                 <div onClick={() => { setEmail('parent@example.com'); setPassword('pass123'); setIsLogin(true); setChildSignIn(false); }} className="cursor-pointer hover:bg-white p-2 rounded transition-colors text-center border border-transparent hover:border-gray-200">
                      <div className="text-xs font-bold text-gray-900">Parent</div>
                      <div className="text-[10px] text-gray-500">parent@example.com</div>
                  </div>
-                 <div onClick={() => { setEmail('child@example.com'); setPassword('pass123'); setIsLogin(true); }} className="cursor-pointer hover:bg-white p-2 rounded transition-colors text-center border border-transparent hover:border-gray-200">
+                 <div onClick={() => { setEmail('child@example.com'); setPassword('pass123'); setIsLogin(true); setChildSignIn(false); }} className="cursor-pointer hover:bg-white p-2 rounded transition-colors text-center border border-transparent hover:border-gray-200">
                      <div className="text-xs font-bold text-gray-900">Child</div>
                      <div className="text-[10px] text-gray-500">child@example.com</div>
                  </div>
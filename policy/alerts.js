@@ -0,0 +1,72 @@
+/**
+ * Alerts on repeated blocked attempts.
+ *
+ * When a child is refused sites in watched categories `threshold` times within
+ * `windowMinutes`, their parent gets an alert. Families can change the
+ * categories and limits in Family.settings.alertSettings; recent attempts are
+ * kept per child in an `alertTrackers/{uid}` document between requests.
+ */
+
+export const DEFAULT_ALERT_SETTINGS = {
+  enabled: true,
+  categories: ['adult', 'self-harm'],
+  threshold: 3,
+  windowMinutes: 10
+};
+
+/**
+ * A family's alert settings, with defaults for anything missing or out of range.
+ *
+ * @param {{alertSettings?: object} | undefined} familySettings - Family.settings
+ * @returns {{enabled: boolean, categories: string[], threshold: number, windowMinutes: number}}
+ */
+export function resolveAlertSettings(familySettings) {
+  const stored = (familySettings && familySettings.alertSettings) || {};
+  const whole = (value, min, max, fallback) =>
+    Number.isInteger(value) && value >= min && value <= max ? value : fallback;
+
+  return {
+    enabled: stored.enabled !== false,
+    categories: Array.isArray(stored.categories) ? stored.categories : DEFAULT_ALERT_SETTINGS.categories,
+    threshold: whole(stored.threshold, 1, 100, DEFAULT_ALERT_SETTINGS.threshold),
+    windowMinutes: whole(stored.windowMinutes, 1, 24 * 60, DEFAULT_ALERT_SETTINGS.windowMinutes)
+  };
+}
+
+/**
+ * @param {{enabled: boolean, categories: string[]}} settings - From resolveAlertSettings
+ * @param {string} category - Category the attempt was blocked for
+ * @returns {boolean} Whether attempts in this category count towards alerts
+ */
+export function isWatchedCategory(settings, category) {
+  return settings.enabled && settings.categories.includes(category);
+}
+
+/**
+ * Add a blocked attempt to a child's tracker and decide whether it triggers an alert.
+ * Attempts that raised an alert are cleared, so the next alert needs a fresh run.
+ *
+ * @param {{attempts?: Array<{at: number, activityId: string, category: string, url: string}>} | null} tracker
+ *   The child's tracker as stored, or null
+ * @param {{at: number, activityId: string, category: string, url: string}} attempt - The new blocked attempt
+ * @param {{enabled: boolean, categories: string[], threshold: number, windowMinutes: number}} settings
+ * @returns {{watched: boolean, attempts: Array<object>, alert: Array<object> | null}}
+ *   watched is false when the attempt is not tracked at all; attempts is the tracker's new list;
+ *   alert lists the attempts that triggered an alert, if one is due
+ */
+export function trackBlockedAttempt(tracker, attempt, settings) {
+  if (!isWatchedCategory(settings, attempt.category)) {
+    return { watched: false, attempts: [], alert: null };
+  }
+
+  const windowStart = attempt.at - settings.windowMinutes * 60 * 1000;
+  const recent = ((tracker && tracker.attempts) || [])
+    .filter(previous => previous.at > windowStart)
+    .concat(attempt)
+    .slice(-settings.threshold);
+
+  if (recent.length >= settings.threshold) {
+    return { watched: true, attempts: [], alert: recent };
+  }
+  return { watched: true, attempts: recent, alert: null };
+}
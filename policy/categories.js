@@ -0,0 +1,72 @@
+/**
+ * Offline domain categorization.
+ *
+ * The domain-to-category map ships with the app in categoryDatabase.json, so
+ * lookups never leave the Worker. Update it with `npm run categories:update`.
+ */
+
+import categoryDatabase from './categoryDatabase.json';
+
+/** Every category the database can assign, with a display label. */
+export const CATEGORY_LABELS = {
+  adult: 'Adult Content',
+  gambling: 'Gambling',
+  drugs: 'Drugs',
+  violence: 'Violence & Gore',
+  'self-harm': 'Self-Harm',
+  malware: 'Malware & Phishing',
+  social: 'Social Media',
+  games: 'Games',
+  education: 'Education'
+};
+
+/** Categories blocked by each FilterLevel preset. */
+export const FILTER_LEVEL_BLOCKED_CATEGORIES = {
+  STRICT: ['adult', 'gambling', 'drugs', 'violence', 'self-harm', 'malware', 'social', 'games'],
+  MODERATE: ['adult', 'gambling', 'drugs', 'violence', 'self-harm', 'malware'],
+  NONE: []
+};
+
+/**
+ * Find the category of a host, checking the host itself and then each parent
+ * domain ("m.facebook.com" falls back to "facebook.com").
+ *
+ * @param {string} hostname - Host to categorize
+ * @param {Record<string, string>} [domains] - Domain map (defaults to the bundled database)
+ * @returns {{category: string, domain: string} | null}
+ */
+export function lookupCategory(hostname, domains = categoryDatabase.domains) {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
+
+  for (let i = 0; i < labels.length - 1; i++) {
+    const domain = labels.slice(i).join('.');
+    if (Object.prototype.hasOwnProperty.call(domains, domain)) {
+      return { category: domains[domain], domain };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decide whether a URL falls in one of a filter policy's blocked categories.
+ *
+ * @param {string[]} blockedCategories - From the effective filter policy (policy/filterPolicies.js)
+ * @param {URL} url - The URL being requested
+ * @returns {{blocked: boolean, category?: string, domain?: string}}
+ */
+export function evaluateCategory(blockedCategories, url) {
+  const match = lookupCategory(url.hostname);
+  if (!match) {
+    return { blocked: false };
+  }
+
+  return {
+    blocked: blockedCategories.includes(match.category),
+    category: match.category,
+    domain: match.domain
+  };
+}
+
+/** Version stamp of the bundled database, for display and debugging. */
+export const CATEGORY_DATABASE_VERSION = categoryDatabase.version;
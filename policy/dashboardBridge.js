@@ -0,0 +1,72 @@
+/**
+ * Dashboard bridge script.
+ *
+ * Injected into proxied pages by the Worker, and into the bundled sample sites
+ * by the in-browser demo proxy, so both behave the same inside the Dashboard frame.
+ */
+
+/**
+ * Script injected into every proxied page. The Dashboard renders pages in a
+ * sandboxed iframe with an opaque origin, so the page talks to it only through
+ * postMessage: link clicks, with or without modifier keys, become Dashboard
+ * navigations (which keeps every navigation on the ID-token entry point) and
+ * title changes update the toolbar.
+ * The messages carry nothing the page itself could not see.
+ *
+ * @param {string} pageUrl - The original (unproxied) URL of the page
+ * @returns {string} Inline script source
+ */
+export function createDashboardBridge(pageUrl) {
+  const pageUrlLiteral = JSON.stringify(pageUrl).replace(/</g, '\\u003c');
+  return `(function () {
+  if (window.parent === window) return;
+  var send = function (message) {
+    message.source = 'openfamilysafe';
+    window.parent.postMessage(message, '*');
+  };
+  // Modifier and middle clicks too: a new tab or window would load the page outside the
+  // Dashboard, where no heartbeats count it against the daily limit
+  var handleClick = function (event) {
+    if (event.defaultPrevented || (event.button !== 0 && event.button !== 1)) return;
+    var link = event.target && event.target.closest ? event.target.closest('a[href], area[href]') : null;
+    if (!link || link.hasAttribute('download')) return;
+    var href = link.getAttribute('href') || '';
+    if (/^(javascript|mailto|tel):/i.test(href)) return;
+    event.preventDefault();
+    if (href.charAt(0) === '#') {
+      var anchor = document.getElementById(decodeURIComponent(href.slice(1)));
+      if (anchor) anchor.scrollIntoView();
+      return;
+    }
+    send({ type: 'navigate', url: link.href });
+  };
+  window.addEventListener('click', handleClick);
+  window.addEventListener('auxclick', handleClick);
+  var lastTitle = null;
+  var sendTitle = function () {
+    if (document.title !== lastTitle) {
+      lastTitle = document.title;
+      send({ type: 'title', title: lastTitle });
+    }
+  };
+  document.addEventListener('DOMContentLoaded', function () {
+    send({ type: 'load', url: ${pageUrlLiteral}, title: document.title });
+    lastTitle = document.title;
+    new MutationObserver(sendTitle).observe(document.head || document.documentElement, { subtree: true, childList: true, characterData: true });
+  });
+})();`;
+}
+
+/**
+ * Script for the page the Worker serves when it refuses a page loaded inside the frame.
+ * It hands the refusal to the Dashboard, which shows its block page in place of the frame.
+ *
+ * @param {string | null} pageUrl - The refused (unproxied) URL
+ * @param {object} error - The Worker's error body: { error, message, ...details }
+ * @param {number} status - HTTP status of the refusal
+ * @returns {string} Inline script source
+ */
+export function createBlockNotice(pageUrl, error, status) {
+  const message = { source: 'openfamilysafe', type: 'blocked', url: pageUrl, error, status };
+  return `if (window.parent !== window) window.parent.postMessage(${JSON.stringify(message).replace(/</g, '\\u003c')}, '*');`;
+}
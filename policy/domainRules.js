@@ -0,0 +1,123 @@
+/**
+ * Family allow/block rules.
+ *
+ * Plain JavaScript with no platform dependencies so the Cloudflare Worker and
+ * the React app share exactly the same matching logic.
+ *
+ * Supported patterns:
+ *   example.com             exact host
+ *   *.example.com           example.com and any subdomain
+ *   example.com/videos      exact host, path "/videos" and everything below it
+ *   *.example.com/videos    wildcard host combined with a path prefix
+ */
+
+const HOST_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/**
+ * Normalize user input into a rule pattern, or return null if it is not valid.
+ * Accepts pasted URLs ("https://www.reddit.com/r/games/") as well as bare hosts.
+ *
+ * @param {string} input - Raw pattern typed by a parent
+ * @returns {string | null} The normalized pattern
+ */
+export function normalizeDomainPattern(input) {
+  let value = (input || '').trim().toLowerCase();
+  value = value.replace(/^[a-z]+:\/\//, '');
+  value = value.split(/[?#]/)[0];
+
+  const slashIndex = value.indexOf('/');
+  let host = slashIndex === -1 ? value : value.slice(0, slashIndex);
+  let path = slashIndex === -1 ? '' : value.slice(slashIndex);
+
+  const wildcard = host.startsWith('*.');
+  if (wildcard) {
+    host = host.slice(2);
+  }
+  host = host.replace(/\.$/, '');
+
+  // Let the URL parser handle IDN hosts (converted to punycode)
+  try {
+    host = new URL(`http://${host}`).hostname;
+  } catch (e) {
+    return null;
+  }
+
+  if (!HOST_PATTERN.test(host)) {
+    return null;
+  }
+
+  path = path.replace(/\/+$/, '');
+
+  return `${wildcard ? '*.' : ''}${host}${path}`;
+}
+
+/**
+ * Check whether a URL is covered by a rule pattern.
+ *
+ * @param {string} pattern - A normalized pattern (see normalizeDomainPattern)
+ * @param {URL} url - The URL being requested
+ * @returns {boolean}
+ */
+export function matchDomainPattern(pattern, url) {
+  const slashIndex = pattern.indexOf('/');
+  let patternHost = slashIndex === -1 ? pattern : pattern.slice(0, slashIndex);
+  const patternPath = slashIndex === -1 ? '' : pattern.slice(slashIndex);
+
+  const wildcard = patternHost.startsWith('*.');
+  if (wildcard) {
+    patternHost = patternHost.slice(2);
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  const hostMatches = wildcard
+    ? hostname === patternHost || hostname.endsWith(`.${patternHost}`)
+    : hostname === patternHost;
+
+  if (!hostMatches) return false;
+  if (!patternPath) return true;
+
+  // Match whole path segments: "/videos" covers "/videos/cats" but not "/videosgames"
+  const pathname = url.pathname.toLowerCase();
+  return pathname === patternPath || pathname.startsWith(`${patternPath}/`);
+}
+
+/**
+ * Whether a rule is in force: temporary rules lapse at `expiresAt`, and rules
+ * granted to one child (`forUid`) apply only to that child.
+ *
+ * @param {{expiresAt?: number, forUid?: string}} rule
+ * @param {{uid?: string, now?: number}} [context]
+ * @returns {boolean}
+ */
+export function isRuleActive(rule, context = {}) {
+  const now = context.now || Date.now();
+  if (rule.expiresAt && rule.expiresAt <= now) return false;
+  if (rule.forUid && rule.forUid !== context.uid) return false;
+  return true;
+}
+
+/**
+ * Evaluate a family's allow and block rules for a URL.
+ * Block rules win over allow rules.
+ *
+ * @param {{allowRules?: Array<{pattern: string}>, blockRules?: Array<{pattern: string}>} | undefined} settings
+ * @param {URL} url - The URL being requested
+ * @param {{uid?: string, now?: number}} [context] - The requesting user, for per-child and temporary rules
+ * @returns {{action: 'ALLOW' | 'BLOCK' | null, pattern?: string}}
+ */
+export function evaluateDomainRules(settings, url, context = {}) {
+  const blockRules = ((settings && settings.blockRules) || []).filter(rule => isRuleActive(rule, context));
+  const allowRules = ((settings && settings.allowRules) || []).filter(rule => isRuleActive(rule, context));
+
+  const blocked = blockRules.find(rule => matchDomainPattern(rule.pattern, url));
+  if (blocked) {
+    return { action: 'BLOCK', pattern: blocked.pattern };
+  }
+
+  const allowed = allowRules.find(rule => matchDomainPattern(rule.pattern, url));
+  if (allowed) {
+    return { action: 'ALLOW', pattern: allowed.pattern };
+  }
+
+  return { action: null };
+}
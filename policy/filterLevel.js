@@ -0,0 +1,31 @@
+/**
+ * Effective filter level.
+ *
+ * Precedence: the child's own override (UserProfile.filterLevelOverride), then the
+ * family default (Family.settings.filterLevel), then DEFAULT_FILTER_LEVEL.
+ * UserProfile.filterLevel is a registration-time leftover and is not consulted.
+ */
+
+export const FILTER_LEVELS = ['STRICT', 'MODERATE', 'NONE'];
+
+/** Used when neither the child nor the family sets a valid level. */
+export const DEFAULT_FILTER_LEVEL = 'MODERATE';
+
+/**
+ * @param {{filterLevelOverride?: string} | null | undefined} profile
+ * @param {{settings?: {filterLevel?: string}} | null | undefined} family
+ * @returns {{level: 'STRICT' | 'MODERATE' | 'NONE', source: 'CHILD' | 'FAMILY' | 'DEFAULT'}}
+ *   source says which setting decided the level
+ */
+export function resolveFilterLevel(profile, family) {
+  if (profile && FILTER_LEVELS.includes(profile.filterLevelOverride)) {
+    return { level: profile.filterLevelOverride, source: 'CHILD' };
+  }
+
+  const familyLevel = family && family.settings && family.settings.filterLevel;
+  if (FILTER_LEVELS.includes(familyLevel)) {
+    return { level: familyLevel, source: 'FAMILY' };
+  }
+
+  return { level: DEFAULT_FILTER_LEVEL, source: 'DEFAULT' };
+}
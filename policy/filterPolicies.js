@@ -0,0 +1,109 @@
+/**
+ * Filter policies.
+ *
+ * A policy bundles everything the proxy filters by: blocked categories, extra
+ * allow/block rules, SafeSearch strength and script stripping. Parents create
+ * named policies in Family.settings.filterPolicies and assign them to children
+ * (UserProfile.filterPolicyId); the built-in filter levels are read-only presets
+ * with the same shape, which parents can clone.
+ */
+
+import { FILTER_LEVEL_BLOCKED_CATEGORIES } from './categories.js';
+import { FILTER_LEVELS, resolveFilterLevel } from './filterLevel.js';
+
+export const SAFE_SEARCH_MODES = ['STRICT', 'MODERATE', 'OFF'];
+
+/**
+ * A policy ready to enforce: a normalized custom policy or a preset.
+ * @typedef {{
+ *   id: string,
+ *   name: string,
+ *   preset?: 'STRICT' | 'MODERATE' | 'NONE',
+ *   blockedCategories: string[],
+ *   safeSearch: 'STRICT' | 'MODERATE' | 'OFF',
+ *   stripScripts: boolean,
+ *   allowRules: Array<{pattern: string}>,
+ *   blockRules: Array<{pattern: string}>
+ * }} EffectivePolicy
+ */
+
+const PRESET_NAMES = {
+  STRICT: 'Strict',
+  MODERATE: 'Moderate',
+  NONE: 'None'
+};
+
+/**
+ * The preset for a built-in filter level.
+ *
+ * @param {'STRICT' | 'MODERATE' | 'NONE'} level
+ * @returns {EffectivePolicy}
+ */
+export function getPresetPolicy(level) {
+  return {
+    id: level,
+    name: PRESET_NAMES[level],
+    preset: level,
+    blockedCategories: [...FILTER_LEVEL_BLOCKED_CATEGORIES[level]],
+    safeSearch: level === 'NONE' ? 'OFF' : level,
+    stripScripts: false,
+    allowRules: [],
+    blockRules: []
+  };
+}
+
+/** Every preset, most restrictive first. */
+export const PRESET_POLICIES = FILTER_LEVELS.map(getPresetPolicy);
+
+/**
+ * Fill in missing or invalid fields of a stored policy, so a half-written
+ * document never disables filtering: unknown SafeSearch values mean STRICT.
+ *
+ * @param {object} policy - As stored in Family.settings.filterPolicies
+ * @returns {EffectivePolicy}
+ */
+export function normalizeFilterPolicy(policy) {
+  return {
+    ...policy,
+    name: policy.name || 'Custom policy',
+    blockedCategories: Array.isArray(policy.blockedCategories) ? policy.blockedCategories : [],
+    safeSearch: SAFE_SEARCH_MODES.includes(policy.safeSearch) ? policy.safeSearch : 'STRICT',
+    stripScripts: policy.stripScripts === true,
+    allowRules: Array.isArray(policy.allowRules) ? policy.allowRules : [],
+    blockRules: Array.isArray(policy.blockRules) ? policy.blockRules : []
+  };
+}
+
+/**
+ * Work out which policy applies to a user: their assigned custom policy if it
+ * still exists, otherwise the preset for their filter level (policy/filterLevel.js).
+ *
+ * @param {{filterPolicyId?: string, filterLevelOverride?: string} | null | undefined} profile
+ * @param {{settings?: {filterLevel?: string, filterPolicies?: Record<string, object>}} | null | undefined} family
+ * @returns {{policy: EffectivePolicy, source: 'POLICY' | 'CHILD' | 'FAMILY' | 'DEFAULT'}}
+ */
+export function resolveFilterPolicy(profile, family) {
+  const policies = (family && family.settings && family.settings.filterPolicies) || {};
+  const policyId = profile && profile.filterPolicyId;
+  if (policyId && Object.prototype.hasOwnProperty.call(policies, policyId)) {
+    return { policy: normalizeFilterPolicy(policies[policyId]), source: 'POLICY' };
+  }
+
+  const { level, source } = resolveFilterLevel(profile, family);
+  return { policy: getPresetPolicy(level), source };
+}
+
+/**
+ * The family's rules plus the policy's own, in the shape evaluateDomainRules expects.
+ * Block rules from either side still win over allow rules.
+ *
+ * @param {{allowRules?: Array<{pattern: string}>, blockRules?: Array<{pattern: string}>} | undefined} familySettings
+ * @param {EffectivePolicy} policy - From resolveFilterPolicy
+ * @returns {{allowRules: Array<{pattern: string}>, blockRules: Array<{pattern: string}>}}
+ */
+export function combineDomainRules(familySettings, policy) {
+  return {
+    allowRules: [...((familySettings && familySettings.allowRules) || []), ...policy.allowRules],
+    blockRules: [...((familySettings && familySettings.blockRules) || []), ...policy.blockRules]
+  };
+}
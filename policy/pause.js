@@ -0,0 +1,45 @@
+/**
+ * "Pause internet".
+ *
+ * Parents can stop all browsing for one child (UserProfile.pause) or for every
+ * child in the family (Family.settings.pause). A pause with `until` lifts itself
+ * at that time; without it, it lasts until a parent resumes browsing.
+ */
+
+/**
+ * @param {{until?: number} | null | undefined} pause
+ * @param {number} [now]
+ * @returns {boolean}
+ */
+export function isPauseActive(pause, now = Date.now()) {
+  return Boolean(pause) && (!pause.until || pause.until > now);
+}
+
+/**
+ * The pause that currently stops a user from browsing, if any. Parents are never paused.
+ * When both the child and the family are paused, the one that lasts longer is reported.
+ *
+ * @param {{role?: string, pause?: {until?: number}} | null | undefined} profile
+ * @param {{settings?: {pause?: {until?: number}}} | null | undefined} family
+ * @param {number} [now]
+ * @returns {{scope: 'CHILD' | 'FAMILY', until: number | null} | null}
+ *   until is null when the pause has no end time
+ */
+export function getActivePause(profile, family, now = Date.now()) {
+  if (!profile || profile.role !== 'CHILD') {
+    return null;
+  }
+
+  const candidates = [
+    { scope: 'CHILD', pause: profile.pause },
+    { scope: 'FAMILY', pause: family && family.settings && family.settings.pause }
+  ].filter(candidate => isPauseActive(candidate.pause, now));
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const longest = candidates.find(candidate => !candidate.pause.until)
+    || candidates.reduce((a, b) => (b.pause.until > a.pause.until ? b : a));
+  return { scope: longest.scope, until: longest.pause.until || null };
+}
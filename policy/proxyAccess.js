@@ -0,0 +1,180 @@
+/**
+ * Proxy access decisions.
+ *
+ * The checks a page load goes through before anything is fetched, and the limits
+ * that go with them. The Worker and the in-browser demo proxy both call these, so
+ * they refuse the same pages, in the same order, with the same messages:
+ *
+ *   1. pause           (policy/pause.js)
+ *   2. allowed hours   (policy/schedule.js)
+ *   3. daily quota
+ *   4. allow/block rules, then categories, on every redirect hop
+ *   5. watched-category blocks count towards parent alerts (policy/alerts.js)
+ *
+ * A denial is {code, message, details}: the code is also the activity log reason,
+ * and details are extra fields for the client's block page.
+ */
+
+import { evaluateDomainRules } from './domainRules.js';
+import { evaluateCategory } from './categories.js';
+import { evaluateSchedule } from './schedule.js';
+import { combineDomainRules } from './filterPolicies.js';
+import { getActivePause } from './pause.js';
+
+// Redirect hops followed before giving up with TOO_MANY_REDIRECTS
+export const MAX_REDIRECTS = 5;
+
+// Time credited per heartbeat; the Dashboard sends one every HEARTBEAT_SECONDS while a page is visible
+export const HEARTBEAT_SECONDS = 60;
+
+// Heartbeats closer together than this earn nothing, so extra tabs or scripts cannot inflate the meter
+export const MIN_HEARTBEAT_GAP_MS = 50 * 1000;
+
+// Activity events and alerts expire after this many days (Firestore TTL on `expiresAt`)
+export const ACTIVITY_RETENTION_DAYS = 30;
+
+/**
+ * @param {{settings?: {timeZone?: string}} | null | undefined} family
+ * @returns {string} The family's time zone, UTC if unset
+ */
+export function getFamilyTimeZone(family) {
+  return (family && family.settings && family.settings.timeZone) || 'UTC';
+}
+
+/**
+ * Today's screen-time budget from a child's dailyQuota.
+ *
+ * @param {{dailyQuota?: Object<string, number>}} profile
+ * @param {string} weekday - e.g. "mon", in the family's time zone
+ * @returns {number | null} Seconds allowed today, or null when there is no limit
+ */
+export function getDailyLimitSeconds(profile, weekday) {
+  const minutes = profile.dailyQuota ? profile.dailyQuota[weekday] : undefined;
+  return typeof minutes === 'number' ? minutes * 60 : null;
+}
+
+/**
+ * Whether a heartbeat (or anything metered like one) earns screen time: only for
+ * children, never while paused, and at most once per MIN_HEARTBEAT_GAP_MS.
+ *
+ * @param {{profile: object, family: object | null}} caller
+ * @param {number} lastHeartbeatAt - Time of the last credit today, 0 if none
+ * @param {number} [now]
+ * @returns {boolean}
+ */
+export function shouldCreditScreenTime(caller, lastHeartbeatAt, now = Date.now()) {
+  // Paused time is not screen time
+  const paused = getActivePause(caller.profile, caller.family, now) !== null;
+  return caller.profile.role === 'CHILD' && !paused && now - lastHeartbeatAt >= MIN_HEARTBEAT_GAP_MS;
+}
+
+/**
+ * Checks that do not depend on the URL: pause, then allowed hours, then daily quota.
+ * Usage is only loaded when the child has a quota and was not already refused.
+ *
+ * @param {{profile: object, family: object | null}} caller
+ * @param {() => ({limitSeconds: number | null, usedSeconds: number, remainingSeconds: number | null} | Promise<object>)} loadQuotaStatus
+ *   Today's budget and usage; may throw if usage cannot be read
+ * @returns {Promise<{code: 'PAUSED' | 'SCHEDULE' | 'QUOTA', message: string, details: object} | null>}
+ *   The denial, or null if the caller may browse now
+ */
+export async function evaluateCallerAccess(caller, loadQuotaStatus) {
+  const pause = getActivePause(caller.profile, caller.family);
+  if (pause) {
+    return {
+      code: 'PAUSED',
+      message: pause.until
+        ? `Your parent paused the internet until ${new Date(pause.until).toISOString()}.`
+        : 'Your parent paused the internet.',
+      details: { scope: pause.scope, until: pause.until }
+    };
+  }
+
+  if (caller.profile.schedule) {
+    const timeZone = getFamilyTimeZone(caller.family);
+    const decision = evaluateSchedule(caller.profile.schedule, timeZone);
+    if (!decision.allowed) {
+      const next = decision.nextStart;
+      return {
+        code: 'SCHEDULE',
+        message: next
+          ? `Browsing is not allowed right now. Allowed again ${next.weekday[0].toUpperCase()}${next.weekday.slice(1)} at ${next.start}.`
+          : 'Browsing is not allowed at any time on your current schedule.',
+        details: { timeZone, nextStart: next || null }
+      };
+    }
+  }
+
+  if (caller.profile.dailyQuota) {
+    const status = await loadQuotaStatus();
+    if (status.remainingSeconds !== null && status.remainingSeconds <= 0) {
+      return {
+        code: 'QUOTA',
+        message: `You have used all ${Math.round(status.limitSeconds / 60)} minutes of browsing time for today.`,
+        details: { limitSeconds: status.limitSeconds, usedSeconds: status.usedSeconds }
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply the family's and the policy's allow/block rules, then the policy's blocked categories, to a URL.
+ * Block rules beat everything; allow rules skip the category check.
+ *
+ * @param {{profile: object, family: object | null}} caller
+ * @param {object} filterPolicy - Effective filter policy (policy/filterPolicies.js)
+ * @param {URL} url - The URL about to be fetched
+ * @returns {{denial: {code: 'BLOCKED_DOMAIN' | 'BLOCKED_CATEGORY', message: string, details: object} | null, rule: string | null}}
+ *   rule is the matched pattern or "category:<name>", for the activity log
+ */
+export function evaluateTargetPolicy(caller, filterPolicy, url) {
+  const rules = combineDomainRules(caller.family && caller.family.settings, filterPolicy);
+  const ruleDecision = evaluateDomainRules(rules, url, { uid: caller.profile.uid });
+  if (ruleDecision.action === 'BLOCK') {
+    return {
+      denial: {
+        code: 'BLOCKED_DOMAIN',
+        message: `${url.hostname} is blocked by your family's rules.`,
+        details: { domain: url.hostname, rule: ruleDecision.pattern }
+      },
+      rule: ruleDecision.pattern
+    };
+  }
+
+  if (ruleDecision.action === 'ALLOW') {
+    return { denial: null, rule: ruleDecision.pattern };
+  }
+
+  // Categories come from the bundled database (policy/categories.js)
+  const categoryDecision = evaluateCategory(filterPolicy.blockedCategories, url);
+  if (categoryDecision.blocked) {
+    return {
+      denial: {
+        code: 'BLOCKED_CATEGORY',
+        message: `${url.hostname} is blocked because it is categorized as "${categoryDecision.category}".`,
+        details: {
+          category: categoryDecision.category,
+          domain: categoryDecision.domain,
+          filterLevel: filterPolicy.preset || null,
+          policy: filterPolicy.name
+        }
+      },
+      rule: `category:${categoryDecision.category}`
+    };
+  }
+
+  return { denial: null, rule: null };
+}
+
+/**
+ * The category a logged block counts towards for parent alerts.
+ *
+ * @param {string | null | undefined} reason - Activity log reason
+ * @param {string | null | undefined} rule - Activity log rule
+ * @returns {string | null} The category for BLOCKED_CATEGORY events, otherwise null
+ */
+export function getAlertCategory(reason, rule) {
+  return reason === 'BLOCKED_CATEGORY' && rule ? rule.replace(/^category:/, '') : null;
+}
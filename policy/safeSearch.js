@@ -0,0 +1,61 @@
+/**
+ * Forced SafeSearch / Restricted Mode.
+ *
+ * Search and video sites are rewritten on every upstream request so the safe
+ * setting is always on when the filter policy asks for it (STRICT or MODERATE). Values already present
+ * in the URL are overwritten, so "&safe=off" typed by a child has no effect.
+ */
+
+const GOOGLE_HOST = /^(www\.)?google\.[a-z]{2,3}(\.[a-z]{2})?$/;
+const GOOGLE_SEARCH_PATHS = ['/search', '/webhp', '/imghp', '/images'];
+
+const BING_HOST = /^(www\.|cn\.)?bing\.com$/;
+const BING_SEARCH_PATHS = ['/search', '/images/search', '/videos/search', '/news/search'];
+
+const DUCKDUCKGO_HOST = /^((html|lite|links)\.)?duckduckgo\.com$/;
+
+const YOUTUBE_HOST = /^((www|m|music)\.)?youtube(-nocookie)?\.com$|^youtubei\.googleapis\.com$/;
+
+/** Per-mode values for each engine; OFF is absent on purpose. */
+const SAFE_SEARCH_SETTINGS = {
+  STRICT: { google: 'active', bing: 'strict', duckduckgo: '1', youtube: 'Strict' },
+  MODERATE: { google: 'active', bing: 'moderate', duckduckgo: '-1', youtube: 'Moderate' }
+};
+
+/**
+ * Work out how an upstream request must change to force safe results.
+ *
+ * @param {'STRICT' | 'MODERATE' | 'OFF'} mode - SafeSearch mode of the effective filter policy
+ * @param {URL} url - The URL about to be fetched
+ * @returns {{engine: 'google' | 'bing' | 'duckduckgo' | 'youtube' | null, url: URL, headers: Record<string, string>}}
+ *   A copy of the URL with safe parameters set, plus any headers to add to the request
+ */
+export function applySafeSearch(mode, url) {
+  const result = { engine: null, url: new URL(url.href), headers: {} };
+  const settings = SAFE_SEARCH_SETTINGS[mode];
+  if (!settings) {
+    return result;
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  const pathname = url.pathname.replace(/\/+$/, '') || '/';
+
+  if (GOOGLE_HOST.test(hostname) && GOOGLE_SEARCH_PATHS.includes(pathname)) {
+    result.engine = 'google';
+    result.url.searchParams.set('safe', settings.google);
+  } else if (BING_HOST.test(hostname) && BING_SEARCH_PATHS.includes(pathname)) {
+    result.engine = 'bing';
+    result.url.searchParams.set('adlt', settings.bing);
+    // The preference cookie wins over the query on some Bing pages
+    result.headers['Cookie'] = `SRCHHPGUSR=ADLT=${settings.bing.toUpperCase()}`;
+  } else if (DUCKDUCKGO_HOST.test(hostname)) {
+    result.engine = 'duckduckgo';
+    result.url.searchParams.set('kp', settings.duckduckgo);
+  } else if (YOUTUBE_HOST.test(hostname)) {
+    // Header documented by Google for network-level Restricted Mode
+    result.engine = 'youtube';
+    result.headers['YouTube-Restrict'] = settings.youtube;
+  }
+
+  return result;
+}
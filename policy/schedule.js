@@ -0,0 +1,103 @@
+/**
+ * Allowed-hours schedules.
+ *
+ * A schedule maps weekdays to time windows in the family's time zone:
+ *   { mon: [{ start: "15:00", end: "19:00" }], sat: [{ start: "09:00", end: "24:00" }] }
+ * Times are "HH:MM" (24-hour), the end is exclusive and "24:00" means midnight.
+ * A weekday with no windows has no allowed hours; no schedule at all means no restriction.
+ */
+
+/** Weekday keys in JavaScript order (Date#getDay). */
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const TIME_PATTERN = /^(\d{2}):(\d{2})$/;
+
+/**
+ * @param {string} value - "HH:MM"
+ * @returns {number | null} Minutes since midnight, or null if invalid
+ */
+export function parseTime(value) {
+  const match = TIME_PATTERN.exec(value || '');
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= 24 * 60 ? minutes : null;
+}
+
+const LOCAL_TIME_FORMAT = {
+  weekday: 'short', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+};
+
+/**
+ * Get the calendar date, weekday and time of day for an instant in a time zone.
+ * Unknown time zones fall back to UTC.
+ *
+ * @param {Date} date
+ * @param {string} timeZone - IANA name, e.g. "Europe/London"
+ * @returns {{date: string, weekday: string, minutes: number}} date is "YYYY-MM-DD"
+ */
+export function getLocalTime(date, timeZone) {
+  let formatter;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', { ...LOCAL_TIME_FORMAT, timeZone });
+  } catch (e) {
+    formatter = new Intl.DateTimeFormat('en-US', { ...LOCAL_TIME_FORMAT, timeZone: 'UTC' });
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday.slice(0, 3).toLowerCase(),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+}
+
+/**
+ * The instant the current local day ends (next midnight) in a time zone, to the minute.
+ *
+ * @param {Date} date
+ * @param {string} timeZone - IANA name
+ * @returns {number} Epoch milliseconds
+ */
+export function getEndOfLocalDay(date, timeZone) {
+  const { minutes } = getLocalTime(date, timeZone);
+  const startOfMinute = date.getTime() - (date.getTime() % 60000);
+  return startOfMinute + (24 * 60 - minutes) * 60000;
+}
+
+/**
+ * Decide whether a schedule allows browsing right now.
+ *
+ * @param {Record<string, Array<{start: string, end: string}>> | undefined} schedule
+ * @param {string} timeZone - The family's IANA time zone
+ * @param {Date} [now]
+ * @returns {{allowed: boolean, nextStart?: {weekday: string, start: string}}}
+ *   When blocked, the next time a window opens within the coming week (if any)
+ */
+export function evaluateSchedule(schedule, timeZone, now = new Date()) {
+  if (!schedule) {
+    return { allowed: true };
+  }
+
+  const { weekday, minutes } = getLocalTime(now, timeZone);
+  const today = WEEKDAYS.indexOf(weekday);
+
+  const windowsFor = (day) => (schedule[day] || [])
+    .map(window => ({ start: window.start, from: parseTime(window.start), to: parseTime(window.end) }))
+    .filter(window => window.from !== null && window.to !== null && window.from < window.to)
+    .sort((a, b) => a.from - b.from);
+
+  if (windowsFor(weekday).some(window => minutes >= window.from && minutes < window.to)) {
+    return { allowed: true };
+  }
+
+  // Today's later windows first, then the following days
+  for (let offset = 0; offset < 7; offset++) {
+    const day = WEEKDAYS[(today + offset) % 7];
+    const next = windowsFor(day).find(window => offset > 0 || window.from > minutes);
+    if (next) {
+      return { allowed: false, nextStart: { weekday: day, start: next.start } };
+    }
+  }
+
+  return { allowed: false };
+}
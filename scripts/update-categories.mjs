@@ -0,0 +1,60 @@
+/**
+ * Merge a domain list into the bundled category database.
+ *
+ * Usage:
+ *   npm run categories:update -- <category> <list-file>
+ *   npm run categories:update -- --remove <domain> [<domain> ...]
+ *
+ * The list file may contain one domain per line or hosts-file entries
+ * ("0.0.0.0 example.com"). Lines starting with # are ignored.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const DATABASE_PATH = fileURLToPath(new URL('../policy/categoryDatabase.json', import.meta.url));
+const KNOWN_CATEGORIES = ['adult', 'gambling', 'drugs', 'violence', 'self-harm', 'malware', 'social', 'games', 'education'];
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+function parseList(text) {
+  return text
+    .split('\n')
+    .map(line => line.replace(/#.*/, '').trim().toLowerCase())
+    .filter(Boolean)
+    .map(line => line.split(/\s+/).pop())
+    .map(domain => domain.replace(/^www\./, '').replace(/\.$/, ''))
+    .filter(domain => DOMAIN_PATTERN.test(domain));
+}
+
+const args = process.argv.slice(2);
+const database = JSON.parse(readFileSync(DATABASE_PATH, 'utf8'));
+
+let changed = 0;
+
+if (args[0] === '--remove') {
+  for (const domain of args.slice(1)) {
+    if (database.domains[domain]) {
+      delete database.domains[domain];
+      changed++;
+    }
+  }
+} else {
+  const [category, listFile] = args;
+  if (!KNOWN_CATEGORIES.includes(category) || !listFile) {
+    console.error(`Usage: update-categories <${KNOWN_CATEGORIES.join('|')}> <list-file>`);
+    process.exit(1);
+  }
+
+  for (const domain of parseList(readFileSync(listFile, 'utf8'))) {
+    if (database.domains[domain] !== category) {
+      database.domains[domain] = category;
+      changed++;
+    }
+  }
+}
+
+database.version = new Date().toISOString().slice(0, 10);
+database.domains = Object.fromEntries(Object.entries(database.domains).sort(([a], [b]) => a.localeCompare(b)));
+
+writeFileSync(DATABASE_PATH, `${JSON.stringify(database, null, 2)}\n`);
+console.log(`Updated ${changed} domain(s); database now has ${Object.keys(database.domains).length} entries.`);
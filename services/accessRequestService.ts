@@ -0,0 +1,213 @@
+// services/accessRequestService.ts
+import {
+  setDoc,
+  updateDoc,
+  doc,
+  query,
+  where,
+  onSnapshot,
+  runTransaction,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db, accessRequestsCollection, accessRequestDoc, familyDoc, userDoc } from '../firebase';
+import { AccessRequest, AccessGrant, DomainRule, UserProfile } from '../types';
+import { normalizeDomainPattern, evaluateDomainRules } from '../policy/domainRules.js';
+import { getEndOfLocalDay } from '../policy/schedule.js';
+import { resolveFilterPolicy, combineDomainRules } from '../policy/filterPolicies.js';
+import { addAuditEntry, updateWithAudit } from './auditService';
+import { authorize } from './permissions';
+
+const FIFTEEN_MINUTES_MS = 15 * 60 * 1000;
+
+/** Thrown when a request cannot be approved because a family or filter policy block rule covers the site. */
+export class AccessRequestConflictError extends Error {
+  constructor(message: string, public blockPattern: string) {
+    super(message);
+    this.name = 'AccessRequestConflictError';
+  }
+}
+
+// ==========================================
+// Child Functions
+// ==========================================
+
+/**
+ * Ask a parent to unblock a site.
+ *
+ * @param child The requesting child's profile
+ * @param url The blocked URL
+ * @param reason The child's explanation
+ * @param blockReason Why the proxy blocked it (error code), if known
+ * @returns The created AccessRequest
+ */
+export async function createAccessRequest(
+  child: UserProfile,
+  url: string,
+  reason: string,
+  blockReason?: string
+): Promise<AccessRequest> {
+  if (!child.familyId) {
+    throw new Error('You are not part of a family yet.');
+  }
+
+  const pattern = normalizeDomainPattern(new URL(url).hostname);
+  if (!pattern) {
+    throw new Error(`"${url}" cannot be requested.`);
+  }
+
+  const ref = doc(accessRequestsCollection);
+  const request: AccessRequest = {
+    id: ref.id,
+    familyId: child.familyId,
+    childUid: child.uid,
+    childName: child.displayName || child.email,
+    url,
+    pattern,
+    reason: reason.trim(),
+    status: 'PENDING',
+    createdAt: Date.now(),
+    ...(blockReason ? { blockReason } : {})
+  };
+
+  await setDoc(ref, request);
+  return request;
+}
+
+/**
+ * Listen to a single request, e.g. so the child sees the decision as soon as it is made.
+ *
+ * @param requestId The ID of the request
+ * @param callback Called with the latest request (null if deleted)
+ * @returns Function that stops listening
+ */
+export function subscribeToAccessRequest(
+  requestId: string,
+  callback: (request: AccessRequest | null) => void
+): Unsubscribe {
+  return onSnapshot(accessRequestDoc(requestId), (snapshot) => {
+    callback(snapshot.exists() ? snapshot.data() : null);
+  }, (error) => {
+    console.error("Error listening to access request:", error);
+  });
+}
+
+// ==========================================
+// Parent Functions
+// ==========================================
+
+/**
+ * Listen to a family's pending requests, oldest first.
+ *
+ * @param familyId The ID of the family
+ * @param callback Called with the current pending requests
+ * @returns Function that stops listening
+ */
+export function subscribeToPendingAccessRequests(
+  familyId: string,
+  callback: (requests: AccessRequest[]) => void
+): Unsubscribe {
+  const q = query(accessRequestsCollection, where('familyId', '==', familyId), where('status', '==', 'PENDING'));
+  return onSnapshot(q, (snapshot) => {
+    callback(snapshot.docs.map(d => d.data()).sort((a, b) => a.createdAt - b.createdAt));
+  }, (error) => {
+    console.error("Error listening to access requests:", error);
+  });
+}
+
+/**
+ * Approve a request by adding an allow rule.
+ * Temporary grants only apply to the requesting child; permanent grants go on the family allowlist.
+ * Block rules win over allow rules, so a site on the family's block list or the child's filter
+ * policy cannot be approved until the parent removes it there. Expired temporary grants are dropped from the allowlist on the way.
+ *
+ * @param request The pending request
+ * @param parentUid UID of the approving parent
+ * @param grant How long to unblock the site
+ * @param timeZone The family's time zone, used for "today"
+ * @returns The family's allow rules after the approval
+ * @throws AccessRequestConflictError if a block rule covers the requested site
+ */
+export async function approveAccessRequest(
+  request: AccessRequest,
+  parentUid: string,
+  grant: AccessGrant,
+  timeZone: string
+): Promise<DomainRule[]> {
+  await authorize('MANAGE_FAMILY', { familyId: request.familyId });
+  const now = Date.now();
+  const expiresAt = grant === 'FIFTEEN_MINUTES'
+    ? now + FIFTEEN_MINUTES_MS
+    : grant === 'TODAY' ? getEndOfLocalDay(new Date(now), timeZone) : undefined;
+
+  const rule: DomainRule = {
+    pattern: request.pattern,
+    createdBy: parentUid,
+    createdAt: now,
+    ...(expiresAt ? { expiresAt, forUid: request.childUid } : {})
+  };
+
+  // The rule and the decision land together so the child never sees an approval without access
+  return runTransaction(db, async (transaction) => {
+    const familySnapshot = await transaction.get(familyDoc(request.familyId));
+    if (!familySnapshot.exists()) {
+      throw new Error("Family not found");
+    }
+    const family = familySnapshot.data();
+    const settings = family.settings;
+    const childSnapshot = await transaction.get(userDoc(request.childUid));
+
+    // Same rules the Worker applies: the family's plus those of the child's filter policy
+    const { policy } = resolveFilterPolicy(childSnapshot.data(), family);
+    const { blockRules } = combineDomainRules(settings, policy);
+    const blocking = evaluateDomainRules({ blockRules }, new URL(request.url), { uid: request.childUid, now });
+    if (blocking.action === 'BLOCK') {
+      const onFamilyList = (settings?.blockRules || []).some(blockRule => blockRule.pattern === blocking.pattern);
+      throw new AccessRequestConflictError(
+        onFamilyList
+          ? `${blocking.pattern} is on your block list, which wins over any approval. Remove it there first to unblock ${request.pattern}.`
+          : `${blocking.pattern} is blocked by the "${policy.name}" filter policy, which wins over any approval. Remove it there or choose another policy first to unblock ${request.pattern}.`,
+        blocking.pattern
+      );
+    }
+
+    const allowRules = [
+      ...(settings?.allowRules || []).filter(existing => !existing.expiresAt || existing.expiresAt > now),
+      rule
+    ];
+    transaction.update(familyDoc(request.familyId), { 'settings.allowRules': allowRules });
+    transaction.update(accessRequestDoc(request.id), {
+      status: 'APPROVED',
+      grant,
+      decidedBy: parentUid,
+      decidedAt: now,
+      ...(expiresAt ? { expiresAt } : {})
+    });
+    addAuditEntry(transaction, {
+      action: 'SITE_REQUEST_APPROVED',
+      targetType: 'ACCESS_REQUEST',
+      targetId: request.id,
+      targetName: request.childName,
+      familyId: request.familyId,
+      before: { status: request.status },
+      after: { status: 'APPROVED', grant, rule }
+    });
+    return allowRules;
+  });
+}
+
+/**
+ * Deny a request with an optional note for the child.
+ *
+ * @param request The pending request
+ * @param parentUid UID of the parent
+ * @param note Explanation shown to the child
+ */
+export async function denyAccessRequest(request: AccessRequest, parentUid: string, note: string): Promise<void> {
+  await authorize('MANAGE_FAMILY', { familyId: request.familyId });
+  await updateWithAudit(accessRequestDoc(request.id), {
+    status: 'DENIED',
+    decidedBy: parentUid,
+    decidedAt: Date.now(),
+    parentNote: note.trim()
+  }, { action: 'SITE_REQUEST_DENIED', reason: note.trim() });
+}
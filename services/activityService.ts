@@ -0,0 +1,61 @@
+// services/activityService.ts
+import { query, where, orderBy, limit, getDocs } from 'firebase/firestore';
+import { activityCollection } from '../firebase';
+import { ActivityEvent } from '../types';
+
+// Upper bound on events loaded for one history view
+const MAX_ACTIVITY_EVENTS = 1000;
+
+// ==========================================
+// Activity Log Functions
+// ==========================================
+
+/**
+ * Get a family's browsing activity in a time range, newest first.
+ * Events are written by the Worker; requires the (familyId, timestamp desc) composite index,
+ * or (familyId, uid, timestamp desc) when filtering to one child.
+ *
+ * @param familyId The ID of the family
+ * @param from Start of the range (inclusive, ms)
+ * @param to End of the range (exclusive, ms)
+ * @param childUid Only this child's events; all children when omitted
+ * @returns Array of ActivityEvents
+ */
+export async function getFamilyActivity(familyId: string, from: number, to: number, childUid?: string): Promise<ActivityEvent[]> {
+  // Filtered in the query, so one busy child cannot push another out of the limit
+  const childConstraints = childUid ? [where('uid', '==', childUid)] : [];
+  const q = query(
+    activityCollection,
+    where('familyId', '==', familyId),
+    ...childConstraints,
+    where('timestamp', '>=', from),
+    where('timestamp', '<', to),
+    orderBy('timestamp', 'desc'),
+    limit(MAX_ACTIVITY_EVENTS)
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }));
+}
+
+/**
+ * Count events per host, most visited first.
+ *
+ * @param events Activity events to summarize
+ * @param count Maximum number of hosts to return
+ * @returns Hosts with their allowed and blocked counts
+ */
+export function getTopDomains(
+  events: ActivityEvent[],
+  count: number = 10
+): { host: string; total: number; blocked: number }[] {
+  const byHost = new Map<string, { host: string; total: number; blocked: number }>();
+  events.forEach(event => {
+    const host = event.host.replace(/^www\./, '') || '(unknown)';
+    const entry = byHost.get(host) || { host, total: 0, blocked: 0 };
+    entry.total++;
+    if (event.decision === 'BLOCKED') entry.blocked++;
+    byHost.set(host, entry);
+  });
+
+  return [...byHost.values()].sort((a, b) => b.total - a.total).slice(0, count);
+}
@@ -0,0 +1,88 @@
+// services/alertService.ts
+import {
+  getDoc,
+  updateDoc,
+  query,
+  where,
+  onSnapshot,
+  writeBatch,
+  deleteField,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db, alertsCollection, alertDoc, familyDoc } from '../firebase';
+import { AlertSettings, FamilyAlert } from '../types';
+import { updateWithAudit } from './auditService';
+import { authorize } from './permissions';
+
+/**
+ * Listen to a family's alerts, newest first.
+ * Alerts are raised by the Worker when a child keeps hitting blocked categories.
+ *
+ * @param familyId The ID of the family
+ * @param callback Called with the current alerts
+ * @returns Function that stops listening
+ */
+export function subscribeToFamilyAlerts(
+  familyId: string,
+  callback: (alerts: FamilyAlert[]) => void
+): Unsubscribe {
+  const q = query(alertsCollection, where('familyId', '==', familyId));
+  return onSnapshot(q, (snapshot) => {
+    callback(snapshot.docs.map(d => d.data()).sort((a, b) => b.createdAt - a.createdAt));
+  }, (error) => {
+    console.error("Error listening to alerts:", error);
+  });
+}
+
+/**
+ * Get a single alert, e.g. to show the activity it links to.
+ *
+ * @param alertId The ID of the alert
+ * @returns The alert, or null if it does not exist (or has expired)
+ */
+export async function getAlert(alertId: string): Promise<FamilyAlert | null> {
+  const snapshot = await getDoc(alertDoc(alertId));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+/**
+ * Mark an alert as read or unread.
+ *
+ * @param alertId The ID of the alert
+ * @param read The new state
+ */
+export async function markAlertRead(alertId: string, read: boolean): Promise<void> {
+  await updateDoc(alertDoc(alertId), {
+    read,
+    readAt: read ? Date.now() : deleteField()
+  });
+}
+
+/**
+ * Mark several alerts as read in one batch.
+ *
+ * @param alerts The alerts to mark (already-read ones are skipped)
+ */
+export async function markAllAlertsRead(alerts: FamilyAlert[]): Promise<void> {
+  const unread = alerts.filter(alert => !alert.read);
+  if (unread.length === 0) return;
+
+  const now = Date.now();
+  const batch = writeBatch(db);
+  unread.forEach(alert => batch.update(alertDoc(alert.id), { read: true, readAt: now }));
+  await batch.commit();
+}
+
+/**
+ * Change which blocked attempts raise alerts for a family.
+ * The Worker picks the change up once its cached family settings expire (about 15 seconds).
+ *
+ * @param familyId The ID of the family
+ * @param settings The new settings
+ */
+export async function updateAlertSettings(familyId: string, settings: AlertSettings): Promise<void> {
+  await authorize('MANAGE_FAMILY', { familyId });
+  await updateWithAudit(familyDoc(familyId), {
+    'settings.alertSettings': settings
+  }, { action: 'ALERT_SETTINGS_CHANGED' });
+}
@@ -0,0 +1,185 @@
+// services/auditService.ts
+import {
+  runTransaction,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  doc,
+  FieldValue,
+  QueryConstraint,
+  DocumentReference,
+  DocumentData
+} from 'firebase/firestore';
+import { auth, db, auditLogCollection } from '../firebase';
+import { AuditAction, AuditLogEntry } from '../types';
+
+// Upper bound on entries loaded for one audit view
+const MAX_AUDIT_ENTRIES = 500;
+
+/** Filters applied in the Firestore query, so they reach past the newest MAX_AUDIT_ENTRIES. */
+export interface AuditLogQuery {
+  /** Start of the range (inclusive, ms) */
+  from?: number;
+  /** End of the range (exclusive, ms) */
+  to?: number;
+  action?: AuditAction;
+}
+
+// Collections an audited update can target, by collection ID
+const TARGET_TYPES: Record<string, AuditLogEntry['targetType']> = {
+  users: 'USER',
+  families: 'FAMILY',
+  accessRequests: 'ACCESS_REQUEST',
+  invites: 'INVITE'
+};
+
+/** Anything that can stage a write: a WriteBatch or a Transaction. */
+interface AuditWriter {
+  set(ref: DocumentReference<AuditLogEntry>, data: AuditLogEntry): unknown;
+}
+
+type AuditEntryInput = Omit<AuditLogEntry, 'id' | 'actorUid' | 'actorEmail' | 'createdAt'>;
+
+interface AuditDetails {
+  action: AuditAction;
+  reason?: string;
+  /** Defaults to the target user's family, or the target family itself */
+  familyId?: string;
+  /** Replace the recorded values, e.g. for array changes made with arrayUnion */
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// ==========================================
+// Writing Entries
+// ==========================================
+
+/**
+ * Stage an audit entry in a batch or transaction, so it commits together with
+ * the change it records. The actor is the signed-in user.
+ *
+ * @param writer The batch or transaction making the change
+ * @param entry What changed
+ */
+export function addAuditEntry(writer: AuditWriter, entry: AuditEntryInput): void {
+  const ref = doc(auditLogCollection);
+  const actor = auth.currentUser;
+  writer.set(ref, {
+    id: ref.id,
+    actorUid: actor?.uid || '',
+    actorEmail: actor?.email || '',
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    // Firestore rejects undefined fields
+    ...(entry.targetName ? { targetName: entry.targetName } : {}),
+    ...(entry.familyId ? { familyId: entry.familyId } : {}),
+    before: entry.before,
+    after: entry.after,
+    ...(entry.reason ? { reason: entry.reason } : {}),
+    createdAt: Date.now()
+  });
+}
+
+/** Read a dotted field path ("settings.filterLevel") from document data. */
+const readFieldPath = (data: DocumentData, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  );
+
+/**
+ * Update one document and record the change in the audit log, in one transaction.
+ * The document's previous values for the updated fields become `before`;
+ * deleteField() is recorded as null and `updatedAt` is left out.
+ *
+ * @param ref The document to update
+ * @param updates Field paths and values, as for updateDoc
+ * @param details The action, and optional reason, family and recorded values
+ * @throws Error if the document does not exist
+ */
+export async function updateWithAudit<T extends DocumentData>(
+  ref: DocumentReference<T>,
+  updates: Record<string, unknown>,
+  details: AuditDetails
+): Promise<void> {
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists()) {
+      throw new Error("The item being changed no longer exists");
+    }
+    const data = snapshot.data() as DocumentData;
+
+    const before: Record<string, unknown> = {};
+    const after: Record<string, unknown> = {};
+    for (const [path, value] of Object.entries(updates)) {
+      if (path === 'updatedAt') continue;
+      before[path] = readFieldPath(data, path) ?? null;
+      after[path] = value instanceof FieldValue ? null : value;
+    }
+
+    const collectionId = ref.parent.id;
+    transaction.update(ref as DocumentReference<DocumentData>, updates);
+    addAuditEntry(transaction, {
+      action: details.action,
+      targetType: TARGET_TYPES[collectionId],
+      targetId: ref.id,
+      targetName: collectionId === 'users' ? (data.displayName || data.email) : data.childName,
+      familyId: details.familyId || (collectionId === 'families' ? ref.id : data.familyId),
+      before: details.before !== undefined ? details.before : before,
+      after: details.after !== undefined ? details.after : after,
+      reason: details.reason
+    });
+  });
+}
+
+// ==========================================
+// Reading Entries
+// ==========================================
+
+const dateRange = (filters: AuditLogQuery): QueryConstraint[] => [
+  ...(filters.from !== undefined ? [where('createdAt', '>=', filters.from)] : []),
+  ...(filters.to !== undefined ? [where('createdAt', '<', filters.to)] : [])
+];
+
+/**
+ * Get the most recent audit entries across all families (SUPER_ADMIN only).
+ * Filtering by action requires the (action, createdAt desc) composite index.
+ *
+ * @param filters Date range and action to query for
+ * @returns Entries, newest first
+ */
+export async function getAuditLog(filters: AuditLogQuery = {}): Promise<AuditLogEntry[]> {
+  const q = query(
+    auditLogCollection,
+    ...(filters.action ? [where('action', '==', filters.action)] : []),
+    ...dateRange(filters),
+    orderBy('createdAt', 'desc'),
+    limit(MAX_AUDIT_ENTRIES)
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(d => d.data());
+}
+
+/**
+ * Get the most recent audit entries for one family.
+ * Requires the (familyId, createdAt desc) composite index. A family's log is small
+ * enough that the action filter is left to the caller.
+ *
+ * @param familyId The ID of the family
+ * @param filters Date range to query for
+ * @returns Entries, newest first
+ */
+export async function getFamilyAuditLog(familyId: string, filters: Pick<AuditLogQuery, 'from' | 'to'> = {}): Promise<AuditLogEntry[]> {
+  const q = query(
+    auditLogCollection,
+    where('familyId', '==', familyId),
+    ...dateRange(filters),
+    orderBy('createdAt', 'desc'),
+    limit(MAX_AUDIT_ENTRIES)
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(d => d.data());
+}
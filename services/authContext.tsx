@@ -23,7 +23,7 @@ interface AuthContextType {
   isParent: boolean;                    // Convenience: role === PARENT
   isChild: boolean;                     // Convenience: role === CHILD
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string, role: 'parent' | 'child', parentEmail?: string) => Promise<void>;
+  signUp: (email: string, password: string, role: 'parent' | 'child', parentEmail?: string, inviteCode?: string) => Promise<UserProfile>;
   signOut: () => Promise<void>;
   refreshProfile: () => Promise<void>;  // Manually refresh user profile
 }
@@ -84,14 +84,23 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     await signInWithEmailAndPassword(auth, email, password);
   };
 
-  const signUp = async (email: string, password: string, role: 'parent' | 'child', parentEmail?: string) => {
+  const signUp = async (email: string, password: string, role: 'parent' | 'child', parentEmail?: string, inviteCode?: string) => {
     try {
       const userCredential = await createUserWithEmailAndPassword(auth, email, password);
       const firebaseUser = userCredential.user;
       
       const userRole = role === 'parent' ? UserRole.PENDING_PARENT : UserRole.PENDING_CHILD;
       
-      await createUserProfile(firebaseUser, userRole, parentEmail);
+      try {
+        return await createUserProfile(firebaseUser, userRole, parentEmail, inviteCode);
+      } catch (profileError) {
+        // A rejected invite code would leave an account with no profile; remove it so the
+        // child can register again with a working code
+        if (inviteCode) {
+          await firebaseUser.delete().catch(err => console.error("Failed to remove account:", err));
+        }
+        throw profileError;
+      }
     } catch (error) {
       console.error("Sign up error:", error);
       throw error;
@@ -0,0 +1,144 @@
+// services/childAccountService.ts
+// Child accounts a parent creates for a child without an email address. The child signs
+// in with a username and PIN; Firebase Auth sees a made-up address on a reserved domain
+// and the PIN as the password.
+import firebase from 'firebase/compat/app';
+import { writeBatch, arrayUnion, arrayRemove, doc, setDoc } from 'firebase/firestore';
+import { auth, db, getChildAccountsAuth, getChildAccountsDb, userDoc, familyDoc } from '../firebase';
+import { UserProfile, UserRole, ApprovalStatus, FilterLevel } from '../types';
+import { addAuditEntry } from './auditService';
+import { authorize } from './permissions';
+
+// ".invalid" is reserved (RFC 2606), so these addresses can never belong to a real mailbox
+export const CHILD_ACCOUNT_EMAIL_DOMAIN = 'kids.openfamilysafe.invalid';
+
+// 3-20 characters: letters, digits, ".", "_" and "-", starting with a letter or digit
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{2,19}$/;
+// Firebase Auth needs passwords of at least 6 characters
+const PIN_PATTERN = /^\d{6,12}$/;
+
+export type ChildAccountProblem = 'INVALID_USERNAME' | 'INVALID_PIN' | 'USERNAME_TAKEN';
+
+/** Thrown when a child account cannot be created with the given username or PIN. */
+export class ChildAccountError extends Error {
+  constructor(message: string, public problem: ChildAccountProblem) {
+    super(message);
+    this.name = 'ChildAccountError';
+  }
+}
+
+export interface ChildAccountDetails {
+  displayName: string;
+  username: string;
+  pin: string;
+}
+
+/** Usernames are case-insensitive. */
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+/** The Firebase Auth address behind a username, used to sign the child in. */
+export const childAccountEmail = (username: string) => `${normalizeUsername(username)}@${CHILD_ACCOUNT_EMAIL_DOMAIN}`;
+
+/**
+ * Check a username and PIN before creating an account.
+ *
+ * @param username The username, as typed
+ * @param pin The PIN, as typed
+ * @returns What is wrong, or null if both are usable
+ */
+export function getCredentialProblem(username: string, pin: string): ChildAccountError | null {
+  if (!USERNAME_PATTERN.test(normalizeUsername(username))) {
+    return new ChildAccountError('Usernames are 3 to 20 letters, digits, dots, dashes or underscores.', 'INVALID_USERNAME');
+  }
+  if (!PIN_PATTERN.test(pin)) {
+    return new ChildAccountError('PINs are 6 to 12 digits.', 'INVALID_PIN');
+  }
+  return null;
+}
+
+/**
+ * Create a sign-in for a child and add them to the family, already approved.
+ * The account is created on a second Firebase app so the parent stays signed in.
+ * The parent lists the new sign-in in the family first; the child's profile is then
+ * saved as the child, which firestore.rules only allows for a listed, profile-less UID.
+ * If either step fails, the listing and the new sign-in are removed again.
+ *
+ * @param familyId The parent's family
+ * @param details The child's name, username and PIN
+ * @returns The new child's profile
+ * @throws ChildAccountError if the username or PIN is invalid, or the username is taken
+ */
+export async function createChildAccount(familyId: string, details: ChildAccountDetails): Promise<UserProfile> {
+  await authorize('MANAGE_FAMILY', { familyId });
+  const problem = getCredentialProblem(details.username, details.pin);
+  if (problem) {
+    throw problem;
+  }
+
+  const parentUid = auth.currentUser!.uid;
+  const username = normalizeUsername(details.username);
+  const childAuth = getChildAccountsAuth();
+  // Keep the child's session out of this browser's storage
+  await childAuth.setPersistence(firebase.auth.Auth.Persistence.NONE);
+
+  let credential: firebase.auth.UserCredential;
+  try {
+    credential = await childAuth.createUserWithEmailAndPassword(childAccountEmail(username), details.pin);
+  } catch (error: any) {
+    if (error.code === 'auth/email-already-in-use') {
+      throw new ChildAccountError(`The username "${username}" is taken. Please pick another.`, 'USERNAME_TAKEN');
+    }
+    throw error;
+  }
+
+  const childUser = credential.user!;
+  const now = Date.now();
+  const profile: UserProfile = {
+    uid: childUser.uid,
+    email: childAccountEmail(username),
+    displayName: details.displayName.trim() || username,
+    username,
+    role: UserRole.CHILD,
+    filterLevel: FilterLevel.MODERATE,
+    approvalStatus: ApprovalStatus.APPROVED,
+    parentUid,
+    familyId,
+    approvedBy: parentUid,
+    approvedAt: now,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  let listed = false;
+  try {
+    const batch = writeBatch(db);
+    batch.update(familyDoc(familyId), { childrenUids: arrayUnion(childUser.uid) });
+    batch.update(userDoc(parentUid), { childrenUids: arrayUnion(childUser.uid), updatedAt: now });
+    addAuditEntry(batch, {
+      action: 'CHILD_ACCOUNT_CREATED',
+      targetType: 'USER',
+      targetId: childUser.uid,
+      targetName: profile.displayName,
+      familyId,
+      before: null,
+      after: { username, role: profile.role, approvalStatus: profile.approvalStatus }
+    });
+    await batch.commit();
+    listed = true;
+
+    await setDoc(doc(getChildAccountsDb(), 'users', childUser.uid), profile);
+  } catch (error) {
+    if (listed) {
+      const undo = writeBatch(db);
+      undo.update(familyDoc(familyId), { childrenUids: arrayRemove(childUser.uid) });
+      undo.update(userDoc(parentUid), { childrenUids: arrayRemove(childUser.uid), updatedAt: Date.now() });
+      await undo.commit().catch(err => console.error("Failed to unlist child account:", err));
+    }
+    await childUser.delete().catch(err => console.error("Failed to remove child sign-in:", err));
+    throw error;
+  } finally {
+    await childAuth.signOut();
+  }
+
+  return profile;
+}
@@ -0,0 +1,301 @@
+// services/demoProxy.ts
+// In-browser stand-in for the Cloudflare Worker, used when VITE_PROXY_WORKER_URL is unset.
+// It serves the sample sites in demoSites.ts through the same policy modules as worker.js
+// (policy/proxyAccess.js for pauses, allowed hours, daily limits, family rules and categories;
+// filter policies, SafeSearch, redirects) and throws the same typed errors, so the whole
+// Dashboard can be tried without Cloudflare.
+// Everything runs in the user's own browser: it is a preview, not a security boundary.
+// Activity events and alerts are only accepted when the project's config/demoMode flag is on
+// (see firestore.rules); otherwise they are skipped with a warning.
+
+import { setDoc, doc, Timestamp } from 'firebase/firestore';
+import { activityCollection, alertDoc } from '../firebase';
+import { getFamily } from './familyService';
+import { createProxyError, ProxiedPage, ProxyErrorCode, ProxyErrorDetails, QuotaStatus } from './proxyService';
+import { getDemoResponse, DEMO_START_PAGES } from './demoSites';
+import { ActivityEvent, Family, FamilyAlert, UserProfile } from '../types';
+import { applySafeSearch } from '../policy/safeSearch.js';
+import { getLocalTime } from '../policy/schedule.js';
+import { createDashboardBridge } from '../policy/dashboardBridge.js';
+import { resolveFilterPolicy } from '../policy/filterPolicies.js';
+import { resolveAlertSettings, isWatchedCategory, trackBlockedAttempt } from '../policy/alerts.js';
+import {
+  MAX_REDIRECTS,
+  HEARTBEAT_SECONDS,
+  ACTIVITY_RETENTION_DAYS,
+  getFamilyTimeZone,
+  getDailyLimitSeconds,
+  shouldCreditScreenTime,
+  evaluateCallerAccess,
+  evaluateTargetPolicy,
+  getAlertCategory
+} from '../policy/proxyAccess.js';
+
+const USAGE_STORAGE_PREFIX = 'openfamilysafe.demoUsage';
+const ALERT_TRACKER_STORAGE_PREFIX = 'openfamilysafe.demoAlertTracker';
+
+interface DemoCaller {
+  profile: UserProfile;
+  family: Family | null;
+}
+
+interface DemoUsage {
+  seconds: number;
+  lastHeartbeatAt: number;
+}
+
+const loadCaller = async (profile: UserProfile): Promise<DemoCaller> => ({
+  profile,
+  family: profile.familyId ? await getFamily(profile.familyId) : null
+});
+
+const denied = (code: ProxyErrorCode, message: string, details: ProxyErrorDetails = {}) =>
+  createProxyError(code, message, { status: 403, ...details });
+
+// ==========================================
+// Screen Time (metered in localStorage)
+// ==========================================
+
+const usageKey = (uid: string, date: string) => `${USAGE_STORAGE_PREFIX}.${uid}.${date}`;
+
+const readUsage = (uid: string, date: string): DemoUsage => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(usageKey(uid, date)) || 'null');
+    if (stored && typeof stored.seconds === 'number') return stored;
+  } catch (e) {
+    // Corrupt entries count as no usage
+  }
+  return { seconds: 0, lastHeartbeatAt: 0 };
+};
+
+const getQuotaStatus = (caller: DemoCaller) => {
+  const { date, weekday } = getLocalTime(new Date(), getFamilyTimeZone(caller.family));
+  const limitSeconds = getDailyLimitSeconds(caller.profile, weekday);
+  const usage = readUsage(caller.profile.uid, date);
+  return {
+    date,
+    usage,
+    limitSeconds,
+    usedSeconds: usage.seconds,
+    remainingSeconds: limitSeconds === null ? null : Math.max(0, limitSeconds - usage.seconds),
+    heartbeatSeconds: HEARTBEAT_SECONDS
+  };
+};
+
+/**
+ * Demo version of POST /heartbeat: active heartbeats from children add time to today's usage.
+ *
+ * @param profile The signed-in user's profile
+ * @param active Whether a page is on screen
+ * @returns Today's quota status
+ */
+export const sendDemoHeartbeat = async (profile: UserProfile, active: boolean): Promise<QuotaStatus> => {
+  const caller = await loadCaller(profile);
+  const status = getQuotaStatus(caller);
+  const now = Date.now();
+
+  if (active && shouldCreditScreenTime(caller, status.usage.lastHeartbeatAt, now)) {
+    status.usedSeconds += HEARTBEAT_SECONDS;
+    localStorage.setItem(usageKey(profile.uid, status.date), JSON.stringify({ seconds: status.usedSeconds, lastHeartbeatAt: now }));
+    if (status.limitSeconds !== null) {
+      status.remainingSeconds = Math.max(0, status.limitSeconds - status.usedSeconds);
+    }
+  }
+
+  const { limitSeconds, usedSeconds, remainingSeconds, heartbeatSeconds } = status;
+  return { limitSeconds, usedSeconds, remainingSeconds, heartbeatSeconds };
+};
+
+// ==========================================
+// Activity Log
+// ==========================================
+
+const recordActivity = async (
+  caller: DemoCaller,
+  url: string,
+  decision: ActivityEvent['decision'],
+  reason: string | null,
+  rule: string | null
+): Promise<string> => {
+  const now = Date.now();
+  const ref = doc(activityCollection);
+  let host = '';
+  try {
+    host = new URL(url).hostname;
+  } catch (e) {
+    // Invalid URLs are still logged, without a host
+  }
+
+  const event: ActivityEvent = {
+    id: ref.id,
+    uid: caller.profile.uid,
+    familyId: caller.profile.familyId || '',
+    url,
+    host,
+    timestamp: now,
+    decision,
+    reason,
+    rule
+  };
+  // expiresAt is the TTL field the Worker sets; it is not part of the client-side type
+  await setDoc(ref, { ...event, expiresAt: Timestamp.fromMillis(now + ACTIVITY_RETENTION_DAYS * 24 * 60 * 60 * 1000) } as ActivityEvent);
+  return ref.id;
+};
+
+// ==========================================
+// Parent Alerts (tracker kept in localStorage)
+// ==========================================
+
+/** Demo version of the Worker's recordBlockedAttempt: raises an alert once the family's threshold is reached. */
+const recordBlockedAttempt = async (caller: DemoCaller, attempt: { activityId: string; url: string; category: string }) => {
+  const { profile, family } = caller;
+  if (profile.role !== 'CHILD' || !profile.familyId) return;
+
+  const settings = resolveAlertSettings(family?.settings);
+  if (!isWatchedCategory(settings, attempt.category)) return;
+
+  const now = Date.now();
+  const trackerKey = `${ALERT_TRACKER_STORAGE_PREFIX}.${profile.uid}`;
+  let tracker = null;
+  try {
+    tracker = JSON.parse(localStorage.getItem(trackerKey) || 'null');
+  } catch (e) {
+    // Corrupt entries count as no recent attempts
+  }
+  const result = trackBlockedAttempt(tracker, { at: now, ...attempt }, settings);
+  localStorage.setItem(trackerKey, JSON.stringify({ attempts: result.attempts }));
+  if (!result.alert) return;
+
+  const ref = alertDoc(crypto.randomUUID());
+  const alert: FamilyAlert = {
+    id: ref.id,
+    familyId: profile.familyId,
+    childUid: profile.uid,
+    childName: profile.displayName || profile.email || 'Your child',
+    categories: [...new Set(result.alert.map(previous => previous.category))],
+    count: result.alert.length,
+    windowMinutes: settings.windowMinutes,
+    firstAt: result.alert[0].at,
+    lastAt: now,
+    activityIds: result.alert.map(previous => previous.activityId),
+    hosts: [...new Set(result.alert.map(previous => {
+      try {
+        return new URL(previous.url).hostname;
+      } catch (e) {
+        return '';
+      }
+    }).filter(Boolean))],
+    createdAt: now,
+    read: false
+  };
+  // expiresAt is the same TTL field the Worker sets
+  await setDoc(ref, { ...alert, expiresAt: Timestamp.fromMillis(now + ACTIVITY_RETENTION_DAYS * 24 * 60 * 60 * 1000) } as FamilyAlert);
+};
+
+// ==========================================
+// Page Fetching
+// ==========================================
+
+const checkScheme = (url: URL) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw createProxyError('UNSUPPORTED_SCHEME', `${url.protocol} addresses cannot be opened through the proxy.`, { status: 400 });
+  }
+};
+
+/** Same removals as the Worker's stripScripts rewriter: scripts, inline handlers, javascript: URLs. */
+const stripScripts = (html: string) => {
+  const page = new DOMParser().parseFromString(html, 'text/html');
+  page.querySelectorAll('script').forEach(script => script.remove());
+  page.querySelectorAll('*').forEach(element => {
+    for (const { name, value } of Array.from(element.attributes)) {
+      if (/^on/i.test(name) || /^\s*javascript:/i.test(value)) {
+        element.removeAttribute(name);
+      }
+    }
+  });
+  return `<!DOCTYPE html>${page.documentElement.outerHTML}`;
+};
+
+/** Inject the <base> and Dashboard bridge the Worker adds to every page. */
+const injectBridge = (html: string, pageUrl: string) => {
+  const head = `<base href="${pageUrl.replace(/"/g, '&quot;')}"><script>${createDashboardBridge(pageUrl)}</script>`;
+  return html.includes('<head>') ? html.replace('<head>', `<head>${head}`) : head + html;
+};
+
+/**
+ * Load a sample site with the same checks, in the same order, as the Worker.
+ *
+ * @param targetUrl Absolute URL to load
+ * @param profile The signed-in user's profile (already approved)
+ * @returns The page HTML and the URL it ended up at after redirects
+ * @throws ProxyError subclasses matching the Worker's error codes
+ */
+export const fetchDemoPage = async (targetUrl: string, profile: UserProfile): Promise<ProxiedPage> => {
+  const caller = await loadCaller(profile);
+
+  const logNavigation = (pageUrl: string, decision: ActivityEvent['decision'], reason: string | null, rule?: string | null) => {
+    recordActivity(caller, pageUrl, decision, reason, rule || null)
+      .then(activityId => {
+        const category = getAlertCategory(reason, rule);
+        return category ? recordBlockedAttempt(caller, { activityId, url: pageUrl, category }) : undefined;
+      })
+      .catch(err => console.warn("Demo proxy could not record activity:", err));
+  };
+
+  // Pause, allowed hours, daily quota
+  const accessDenial = await evaluateCallerAccess(caller, () => getQuotaStatus(caller));
+  if (accessDenial) {
+    logNavigation(targetUrl, 'BLOCKED', accessDenial.code);
+    throw denied(accessDenial.code, accessDenial.message, accessDenial.details);
+  }
+
+  let currentUrl: URL;
+  try {
+    currentUrl = new URL(targetUrl);
+  } catch (e) {
+    throw createProxyError('INVALID_URL', 'The address is not a valid URL.', { status: 400 });
+  }
+  checkScheme(currentUrl);
+
+  // Family and policy rules, then the policy's categories; applied to every redirect hop
+  const filterPolicy = resolveFilterPolicy(caller.profile, caller.family).policy;
+  const checkPolicy = (url: URL): string | null => {
+    const { denial, rule } = evaluateTargetPolicy(caller, filterPolicy, url);
+    if (denial) {
+      logNavigation(url.href, 'BLOCKED', denial.code, rule);
+      throw denied(denial.code, denial.message, denial.details);
+    }
+    return rule;
+  };
+
+  let rule = checkPolicy(currentUrl);
+
+  for (let hop = 0; ; hop++) {
+    const safeSearch = applySafeSearch(filterPolicy.safeSearch, currentUrl);
+    const response = getDemoResponse(safeSearch.url, safeSearch.headers);
+
+    if (!response) {
+      throw createProxyError('DNS_FAILURE',
+        `${currentUrl.hostname} is not one of the demo sites. Try ${DEMO_START_PAGES.join(', ')}.`, { status: 502 });
+    }
+
+    if (response.location) {
+      if (hop >= MAX_REDIRECTS) {
+        throw createProxyError('TOO_MANY_REDIRECTS', `Gave up after ${MAX_REDIRECTS} redirects.`, { status: 502 });
+      }
+      const next = new URL(response.location, currentUrl);
+      checkScheme(next);
+      rule = checkPolicy(next);
+      currentUrl = next;
+      continue;
+    }
+
+    if (response.status >= 400 || !response.html) {
+      throw createProxyError('UPSTREAM_ERROR', `The website responded with ${response.status}.`, { status: response.status });
+    }
+
+    logNavigation(currentUrl.href, 'ALLOWED', null, rule);
+    const html = filterPolicy.stripScripts ? stripScripts(response.html) : response.html;
+    return { html: injectBridge(html, currentUrl.href), finalUrl: currentUrl.href };
+  }
+};
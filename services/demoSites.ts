@@ -0,0 +1,177 @@
+// services/demoSites.ts
+// Sample sites served by the demo proxy when no Worker is configured.
+// Each one exercises part of the filter: education sites are allowed, social
+// and gambling sites hit the category filter, search engines get SafeSearch.
+
+export interface DemoResponse {
+  status: number;
+  /** For 3xx responses */
+  location?: string;
+  html?: string;
+}
+
+type DemoHandler = (url: URL, headers: Record<string, string>) => DemoResponse;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const page = (title: string, body: string, accent = '#2563eb'): DemoResponse => ({
+  status: 200,
+  html: `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0; color: #1f2937; line-height: 1.5; }
+  header { background: ${accent}; color: white; padding: 16px 32px; }
+  header a { color: white; text-decoration: none; font-weight: 600; font-size: 1.25rem; }
+  main { padding: 24px 32px; max-width: 720px; }
+  a { color: ${accent}; }
+  .demo { background: #fef3c7; color: #92400e; font-size: 0.8rem; padding: 6px 32px; }
+  .result { margin-bottom: 16px; }
+  .result small { color: #047857; display: block; }
+</style>
+</head>
+<body>
+<div class="demo">Demo site bundled with OpenFamilySafe &mdash; no real website was contacted.</div>
+${body}
+</body>
+</html>`
+});
+
+const redirect = (location: string): DemoResponse => ({ status: 301, location });
+
+const notFound = (): DemoResponse => ({ status: 404 });
+
+/** Links shown on the start pages, covering allowed and blocked examples. */
+const TOUR_LINKS = `
+<ul>
+  <li><a href="https://www.wikipedia.org/">Wikipedia</a> &mdash; education, always allowed</li>
+  <li><a href="https://www.khanacademy.org/">Khan Academy</a> &mdash; education</li>
+  <li><a href="https://www.google.com/search?q=volcanoes&safe=off">Google search</a> &mdash; SafeSearch is forced on below NONE</li>
+  <li><a href="https://www.youtube.com/">YouTube</a> &mdash; Restricted Mode below NONE</li>
+  <li><a href="https://www.reddit.com/">Reddit</a> &mdash; social media, blocked at STRICT</li>
+  <li><a href="https://www.bet365.com/">bet365</a> &mdash; gambling, blocked at STRICT and MODERATE</li>
+  <li><a href="http://wikipedia.org/">wikipedia.org</a> &mdash; redirects to www.wikipedia.org</li>
+</ul>`;
+
+const WIKIPEDIA_ARTICLES: Record<string, string> = {
+  Volcano: 'A volcano is a rupture in the crust of a planet that allows hot lava, volcanic ash and gases to escape from a magma chamber below the surface.',
+  Photosynthesis: 'Photosynthesis is the process plants use to turn light energy into chemical energy stored in sugars.',
+  Cat: 'The cat is a small domesticated carnivorous mammal, kept as a house pet for thousands of years.'
+};
+
+const SEARCH_RESULTS = [
+  { title: 'Volcano - Wikipedia', url: 'https://en.wikipedia.org/wiki/Volcano', safe: true },
+  { title: 'Volcanoes | Khan Academy', url: 'https://www.khanacademy.org/science/volcanoes', safe: true },
+  { title: 'r/volcanoes on Reddit', url: 'https://www.reddit.com/r/volcanoes', safe: true },
+  { title: 'Bet on the next eruption - bet365', url: 'https://www.bet365.com/', safe: false }
+];
+
+const DEMO_SITES: Record<string, DemoHandler> = {
+  'example.com': (url) => url.pathname === '/'
+    ? page('Example Domain', `
+<header><a href="/">Example Domain</a></header>
+<main>
+  <p>Welcome to the OpenFamilySafe demo. These sample sites run through the same family rules,
+  category filter, SafeSearch, allowed hours and daily limits as the real proxy.</p>
+  ${TOUR_LINKS}
+</main>`, '#374151')
+    : notFound(),
+
+  'www.example.com': () => redirect('https://example.com/'),
+
+  'wikipedia.org': () => redirect('https://www.wikipedia.org/'),
+
+  'www.wikipedia.org': (url) => url.pathname === '/'
+    ? page('Wikipedia', `
+<header><a href="/">Wikipedia</a></header>
+<main>
+  <p>The Free Encyclopedia. Featured articles:</p>
+  <ul>${Object.keys(WIKIPEDIA_ARTICLES).map(name => `<li><a href="https://en.wikipedia.org/wiki/${name}">${name}</a></li>`).join('')}</ul>
+</main>`, '#1f2937')
+    : notFound(),
+
+  'en.wikipedia.org': (url) => {
+    const name = decodeURIComponent(url.pathname.replace(/^\/wiki\//, ''));
+    const article = url.pathname.startsWith('/wiki/') ? WIKIPEDIA_ARTICLES[name] : undefined;
+    return article
+      ? page(`${name} - Wikipedia`, `
+<header><a href="https://www.wikipedia.org/">Wikipedia</a></header>
+<main>
+  <h1>${escapeHtml(name)}</h1>
+  <p>${article}</p>
+  <p>See also: ${Object.keys(WIKIPEDIA_ARTICLES).filter(other => other !== name).map(other => `<a href="/wiki/${other}">${other}</a>`).join(', ')}</p>
+</main>`, '#1f2937')
+      : notFound();
+  },
+
+  'khanacademy.org': (url) => redirect(`https://www.khanacademy.org${url.pathname}`),
+
+  'www.khanacademy.org': (url) => page('Khan Academy', `
+<header><a href="/">Khan Academy</a></header>
+<main>
+  <h1>${url.pathname === '/' ? 'Learn for free' : 'Volcanoes'}</h1>
+  <p>${url.pathname === '/' ? 'Math, science and more, for every grade.' : 'Why do volcanoes erupt? Watch the lesson and try the practice questions.'}</p>
+  <p><a href="/science/volcanoes">Science: volcanoes</a> &middot; <a href="https://example.com/">Back to the demo start page</a></p>
+</main>`, '#14bf96'),
+
+  'www.google.com': (url) => {
+    if (url.pathname === '/') return redirect('https://www.google.com/search');
+    if (url.pathname !== '/search') return notFound();
+    const query = url.searchParams.get('q') || '';
+    const safe = url.searchParams.get('safe') === 'active';
+    const results = SEARCH_RESULTS.filter(result => !safe || result.safe);
+    return page(query ? `${query} - Google Search` : 'Google', `
+<header><a href="/search">Google</a></header>
+<main>
+  <p>Results for <strong>${escapeHtml(query || '(nothing)')}</strong></p>
+  <p><small>SafeSearch: <strong>${safe ? 'on' : 'off'}</strong> (safe=${escapeHtml(url.searchParams.get('safe') || 'unset')})</small></p>
+  ${query ? results.map(result => `<div class="result"><a href="${result.url}">${result.title}</a><small>${result.url}</small></div>`).join('') : ''}
+</main>`, '#4285f4');
+  },
+
+  'google.com': (url) => redirect(`https://www.google.com${url.pathname}${url.search}`),
+
+  'www.youtube.com': (url, headers) => {
+    const restricted = headers['YouTube-Restrict'];
+    return url.pathname === '/'
+      ? page('YouTube', `
+<header><a href="/">YouTube</a></header>
+<main>
+  <p>Restricted Mode: <strong>${restricted ? escapeHtml(restricted) : 'off'}</strong></p>
+  <ul>
+    <li>How volcanoes work (all ages)</li>
+    ${restricted ? '' : '<li>Top 10 scariest eruptions (mature)</li>'}
+  </ul>
+</main>`, '#ff0000')
+      : notFound();
+  },
+
+  'www.reddit.com': (url) => page('Reddit', `
+<header><a href="/">reddit</a></header>
+<main>
+  <h1>${url.pathname.startsWith('/r/') ? escapeHtml(url.pathname.slice(1)) : 'Popular posts'}</h1>
+  <p>Social media is blocked at the STRICT level and allowed at MODERATE.</p>
+</main>`, '#ff4500'),
+
+  'www.bet365.com': () => page('bet365', `
+<header><a href="/">bet365</a></header>
+<main><p>Gambling sites are only reachable with the NONE filter level.</p></main>`, '#126e51')
+};
+
+/** Hosts with a start page, listed when an unknown site is requested. */
+export const DEMO_START_PAGES = ['example.com', 'www.wikipedia.org', 'www.khanacademy.org', 'www.google.com/search?q=volcanoes', 'www.youtube.com', 'www.reddit.com', 'www.bet365.com'];
+
+/**
+ * Answer a request for a sample site.
+ *
+ * @param url The URL being fetched
+ * @param headers Request headers (e.g. YouTube-Restrict from SafeSearch)
+ * @returns The response, or null if the host is not a demo site
+ */
+export const getDemoResponse = (url: URL, headers: Record<string, string>): DemoResponse | null => {
+  const handler = DEMO_SITES[url.hostname.toLowerCase()];
+  return handler ? handler(url, headers) : null;
+};
@@ -8,18 +8,21 @@ import {
   getDocs,
   arrayUnion,
   arrayRemove,
+  deleteField,
+  runTransaction,
+  onSnapshot,
+  Unsubscribe,
   addDoc,
-  collection,
   doc,
   DocumentReference,
   DocumentSnapshot
 } from 'firebase/firestore';
 import { db, familiesCollection, usersCollection, familyDoc, userDoc } from '../firebase';
-import { Family, UserProfile, FilterLevel, ApprovalStatus, UserRole } from '../types';
+import { Family, UserProfile, FilterLevel, FilterPolicy, BrowsingPause, ApprovalStatus, UserRole, DomainRule, WeeklySchedule, DailyQuota } from '../types';
 import { getUserProfile } from './userService';
-
-// Helper for invites collection
-const invitesCollection = collection(db, 'invites');
+import { addAuditEntry, updateWithAudit } from './auditService';
+import { authorize } from './permissions';
+import { normalizeDomainPattern } from '../policy/domainRules.js';
 
 // ==========================================
 // Family CRUD Functions
@@ -33,6 +36,7 @@ const invitesCollection = collection(db, 'invites');
  * @returns The created Family object
  */
 export async function createFamily(parentUid: string): Promise<Family> {
+  await authorize('CREATE_FAMILY', { uid: parentUid });
   // Create a new document in the families collection with an auto-generated ID
   const newFamilyRef = doc(familiesCollection);
   const currentTimestamp = Date.now();
@@ -72,6 +76,34 @@ export async function getFamily(familyId: string): Promise<Family | null> {
   return null;
 }
 
+/**
+ * Listen to a family document, e.g. so a child's Dashboard reacts to a pause at once.
+ *
+ * @param familyId The ID of the family
+ * @param callback Called with the latest family (null if it does not exist)
+ * @returns Function that stops listening
+ */
+export function subscribeToFamily(familyId: string, callback: (family: Family | null) => void): Unsubscribe {
+  return onSnapshot(familyDoc(familyId), (snapshot) => {
+    callback(snapshot.exists() ? snapshot.data() as Family : null);
+  }, (error) => {
+    console.error("Error listening to family:", error);
+  });
+}
+
+/**
+ * Pause or resume browsing for every child in a family.
+ *
+ * @param familyId The ID of the family
+ * @param pause The pause to apply, or null to resume browsing
+ */
+export async function updateFamilyPause(familyId: string, pause: BrowsingPause | null): Promise<void> {
+  await authorize('MANAGE_FAMILY', { familyId });
+  await updateWithAudit(familyDoc(familyId), {
+    'settings.pause': pause ?? deleteField()
+  }, { action: 'PAUSE_CHANGED' });
+}
+
 /**
  * Get a family associated with a specific parent UID.
  * 
@@ -95,6 +127,7 @@ export async function getFamilyByParent(parentUid: string): Promise<Family | nul
  * @param settings Partial settings object
  */
 export async function updateFamilySettings(familyId: string, settings: Partial<Family['settings']>): Promise<void> {
+  await authorize('MANAGE_FAMILY', { familyId });
   // Since settings is a nested object, we need to be careful not to overwrite the entire map if we only want partial updates.
   // However, the interface only has filterLevel currently.
   // Using dot notation for nested fields updating usually requires referencing the specific path e.g. "settings.filterLevel"
@@ -105,83 +138,229 @@ export async function updateFamilySettings(familyId: string, settings: Partial<F
   if (settings && settings.filterLevel) {
     updates['settings.filterLevel'] = settings.filterLevel;
   }
+  if (settings && settings.timeZone) {
+    updates['settings.timeZone'] = settings.timeZone;
+  }
   
   if (Object.keys(updates).length > 0) {
-    await updateDoc(familyDoc(familyId), updates);
+    await updateWithAudit(familyDoc(familyId), updates, { action: 'FAMILY_SETTINGS_CHANGED' });
   }
 }
 
 // ==========================================
-// Child Management Functions
+// Website Rule Functions
 // ==========================================
 
 /**
- * Add a child to a family.
- * Updates the Family document and the Child's UserProfile.
- * 
+ * Add an allow or block rule to a family.
+ * The pattern is normalized first (scheme, query and trailing slash removed).
+ *
  * @param familyId The ID of the family
- * @param childUid The UID of the child to add
+ * @param list Which list to add the rule to
+ * @param pattern Raw pattern entered by the parent
+ * @param createdBy UID of the parent adding the rule
+ * @returns The stored DomainRule
  */
-export async function addChildToFamily(familyId: string, childUid: string): Promise<void> {
-  // 1. Get the family to know the parentUid
-  const family = await getFamily(familyId);
-  if (!family) {
-    throw new Error('Family not found');
+export async function addDomainRule(
+  familyId: string,
+  list: 'allow' | 'block',
+  pattern: string,
+  createdBy: string
+): Promise<DomainRule> {
+  await authorize('MANAGE_FAMILY', { familyId });
+  const normalized = normalizeDomainPattern(pattern);
+  if (!normalized) {
+    throw new Error(`"${pattern}" is not a valid website pattern`);
   }
 
-  // 2. Update Family document
-  await updateDoc(familyDoc(familyId), {
-    childrenUids: arrayUnion(childUid)
-  });
+  const rule: DomainRule = {
+    pattern: normalized,
+    createdBy,
+    createdAt: Date.now()
+  };
 
-  // 3. Update Child UserProfile
-  await updateDoc(userDoc(childUid), {
-    familyId: familyId,
-    parentUid: family.parentUid, // Link child to parent
-    updatedAt: Date.now()
-  });
+  const path = list === 'allow' ? 'settings.allowRules' : 'settings.blockRules';
+  await updateWithAudit(familyDoc(familyId), {
+    [path]: arrayUnion(rule)
+  }, { action: 'RULE_ADDED', before: null, after: { [path]: rule } });
 
-  // 4. Update Parent UserProfile to include this child
-  await updateDoc(userDoc(family.parentUid), {
-    childrenUids: arrayUnion(childUid),
-    updatedAt: Date.now()
-  });
+  return rule;
 }
 
 /**
- * Remove a child from a family.
- * 
+ * Remove an allow or block rule from a family.
+ *
  * @param familyId The ID of the family
- * @param childUid The UID of the child to remove
+ * @param list Which list to remove the rule from
+ * @param rule The exact rule object as stored
  */
-export async function removeChildFromFamily(familyId: string, childUid: string): Promise<void> {
-  const family = await getFamily(familyId);
-  if (!family) {
-    throw new Error('Family not found');
+export async function removeDomainRule(familyId: string, list: 'allow' | 'block', rule: DomainRule): Promise<void> {
+  await authorize('MANAGE_FAMILY', { familyId });
+  const path = list === 'allow' ? 'settings.allowRules' : 'settings.blockRules';
+  await updateWithAudit(familyDoc(familyId), {
+    [path]: arrayRemove(rule)
+  }, { action: 'RULE_REMOVED', before: { [path]: rule }, after: null });
+}
+
+// ==========================================
+// Filter Policy Functions
+// ==========================================
+
+/**
+ * Turn the patterns typed into a policy's allow or block list into rules.
+ * Rules that already existed keep their original author and date.
+ *
+ * @param patterns Raw patterns entered by the parent
+ * @param createdBy UID of the parent editing the policy
+ * @param existing The list's current rules
+ * @returns Normalized rules, without duplicates
+ * @throws Error naming the first invalid pattern
+ */
+export function buildPolicyRules(patterns: string[], createdBy: string, existing: DomainRule[] = []): DomainRule[] {
+  const rules: DomainRule[] = [];
+  for (const pattern of patterns) {
+    const normalized = normalizeDomainPattern(pattern);
+    if (!normalized) {
+      throw new Error(`"${pattern}" is not a valid website pattern`);
+    }
+    if (rules.some(rule => rule.pattern === normalized)) continue;
+    rules.push(existing.find(rule => rule.pattern === normalized) || { pattern: normalized, createdBy, createdAt: Date.now() });
   }
+  return rules;
+}
 
-  // 1. Update Family document
-  await updateDoc(familyDoc(familyId), {
-    childrenUids: arrayRemove(childUid)
+/** A fresh ID for a new policy; also its key in settings.filterPolicies. */
+export function createFilterPolicyId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Create or replace a custom filter policy.
+ *
+ * @param familyId The ID of the family
+ * @param policy The full policy, keyed by its id
+ */
+export async function saveFilterPolicy(familyId: string, policy: FilterPolicy): Promise<void> {
+  await authorize('MANAGE_FAMILY', { familyId });
+  await updateWithAudit(familyDoc(familyId), {
+    [`settings.filterPolicies.${policy.id}`]: policy
+  }, { action: 'POLICY_SAVED' });
+}
+
+/**
+ * Delete a custom filter policy. Children on it go back to the family default.
+ *
+ * @param familyId The ID of the family
+ * @param policyId The policy to delete
+ * @param childUids Children currently assigned to the policy
+ */
+export async function deleteFilterPolicy(familyId: string, policyId: string, childUids: string[]): Promise<void> {
+  await authorize('MANAGE_FAMILY', { familyId });
+  await Promise.all(childUids.map(uid => authorize('MANAGE_CHILD', { uid })));
+  const path = `settings.filterPolicies.${policyId}`;
+  await runTransaction(db, async (transaction) => {
+    const familySnap = await transaction.get(familyDoc(familyId));
+    const policy = familySnap.data()?.settings?.filterPolicies?.[policyId] || null;
+
+    transaction.update(familyDoc(familyId), { [path]: deleteField() });
+    for (const childUid of childUids) {
+      transaction.update(userDoc(childUid), { filterPolicyId: deleteField(), updatedAt: Date.now() });
+    }
+    addAuditEntry(transaction, {
+      action: 'POLICY_DELETED',
+      targetType: 'FAMILY',
+      targetId: familyId,
+      familyId,
+      before: { [path]: policy },
+      after: null
+    });
   });
+}
 
-  // 2. Update Child UserProfile (remove links)
-  // We explicitly set fields to null or delete them? Firestore doesn't support undefined nicely.
-  // UserProfile uses optional fields, so we can probably just ignore them or leave them?
-  // It's cleaner to remove the association.
-  await updateDoc(userDoc(childUid), {
-    familyId: '', // Or use deleteField() if imported, but empty string or sentinel value is often easier
-    parentUid: '',
+// ==========================================
+// Per-Child Settings
+// ==========================================
+
+/**
+ * Put a child on a custom filter policy, replacing any filter level of their own.
+ *
+ * @param childUid The UID of the child
+ * @param policyId ID of a policy in the family's settings, or null to follow the family default
+ */
+export async function updateChildFilterPolicy(childUid: string, policyId: string | null): Promise<void> {
+  await authorize('MANAGE_CHILD', { uid: childUid });
+  await updateWithAudit(userDoc(childUid), {
+    filterPolicyId: policyId ?? deleteField(),
+    filterLevelOverride: deleteField(),
     updatedAt: Date.now()
-  } as any); // Type assertion needed if fields are not nullable in strict types, but they are optional string | undefined
+  }, { action: 'CHILD_FILTER_CHANGED' });
+}
 
-  // 3. Update Parent UserProfile
-  await updateDoc(userDoc(family.parentUid), {
-    childrenUids: arrayRemove(childUid),
+/**
+ * Set or clear a child's own filter level, taking them off any custom policy.
+ * A child's override wins over the family's filter level (policy/filterLevel.js).
+ *
+ * @param childUid The UID of the child
+ * @param level The level to enforce for this child, or null to follow the family default
+ */
+export async function updateChildFilterLevel(childUid: string, level: FilterLevel | null): Promise<void> {
+  await authorize('MANAGE_CHILD', { uid: childUid });
+  await updateWithAudit(userDoc(childUid), {
+    filterLevelOverride: level ?? deleteField(),
+    filterPolicyId: deleteField(),
     updatedAt: Date.now()
-  });
+  }, { action: 'CHILD_FILTER_CHANGED' });
+}
+
+/**
+ * Pause or resume browsing for one child. Unlike suspendUser this leaves
+ * approvalStatus alone, so the child sees a "paused" page rather than a suspended account.
+ *
+ * @param childUid The UID of the child
+ * @param pause The pause to apply, or null to resume browsing
+ */
+export async function updateChildPause(childUid: string, pause: BrowsingPause | null): Promise<void> {
+  await authorize('MANAGE_CHILD', { uid: childUid });
+  await updateWithAudit(userDoc(childUid), {
+    pause: pause ?? deleteField(),
+    updatedAt: Date.now()
+  }, { action: 'PAUSE_CHANGED' });
+}
+
+/**
+ * Set or clear a child's allowed browsing hours.
+ * The Worker evaluates the schedule in the family's time zone (settings.timeZone).
+ *
+ * @param childUid The UID of the child
+ * @param schedule Weekly time windows, or null to remove the restriction
+ */
+export async function updateChildSchedule(childUid: string, schedule: WeeklySchedule | null): Promise<void> {
+  await authorize('MANAGE_CHILD', { uid: childUid });
+  await updateWithAudit(userDoc(childUid), {
+    schedule: schedule ?? deleteField(),
+    updatedAt: Date.now()
+  }, { action: 'SCHEDULE_CHANGED' });
+}
+
+/**
+ * Set or clear a child's daily browsing budget.
+ * Usage is metered by the Worker from Dashboard heartbeats.
+ *
+ * @param childUid The UID of the child
+ * @param quota Minutes per weekday, or null to remove the limit
+ */
+export async function updateChildQuota(childUid: string, quota: DailyQuota | null): Promise<void> {
+  await authorize('MANAGE_CHILD', { uid: childUid });
+  await updateWithAudit(userDoc(childUid), {
+    dailyQuota: quota ?? deleteField(),
+    updatedAt: Date.now()
+  }, { action: 'QUOTA_CHANGED' });
 }
 
+// ==========================================
+// Child Management Functions
+// ==========================================
+
 /**
  * Get all children profiles belonging to a family.
  * 
@@ -238,57 +417,6 @@ export async function findParentByEmail(email: string): Promise<UserProfile | nu
   return null;
 }
 
-/**
- * Generate a unique family invite code.
- * Stores the code in a separate 'invites' collection for validation.
- * 
- * @param familyId The ID of the family generating the invite
- * @returns The generated invite code string
- */
-export async function generateFamilyInviteCode(familyId: string): Promise<string> {
-  // Generate a rudimentary 6-character alphanumeric code
-  // In production, use a library or better algorithm to ensure uniqueness and collision handling
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let code = '';
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-
-  // Store in firestore with expiration (e.g., 48 hours)
-  // Not checking for collisions here for simplicity of task
-  await addDoc(invitesCollection, {
-    code,
-    familyId,
-    createdAt: Date.now(),
-    expiresAt: Date.now() + (48 * 60 * 60 * 1000) // 48 hours
-  });
-
-  return code;
-}
-
-/**
- * Validate a family invite code.
- * 
- * @param code The invite code to validate
- * @returns The Family object associated with the code, or null if invalid/expired
- */
-export async function validateFamilyInviteCode(code: string): Promise<Family | null> {
-  const q = query(invitesCollection, where('code', '==', code));
-  const snapshot = await getDocs(q);
-  
-  if (snapshot.empty) return null;
-  
-  const inviteData = snapshot.docs[0].data();
-  const now = Date.now();
-  
-  if (inviteData.expiresAt && now > inviteData.expiresAt) {
-    return null; // Expired
-  }
-  
-  // Return the family
-  return getFamily(inviteData.familyId);
-}
-
 // ==========================================
 // Utility Functions
 // ==========================================
@@ -0,0 +1,218 @@
+// services/inviteService.ts
+import {
+  getDoc,
+  query,
+  where,
+  onSnapshot,
+  runTransaction,
+  arrayUnion,
+  Transaction,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db, invitesCollection, inviteDoc, familyDoc } from '../firebase';
+import { FamilyInvite } from '../types';
+import { addAuditEntry, updateWithAudit } from './auditService';
+import { authorize } from './permissions';
+
+// Codes leave out characters that are easy to misread (0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+// A fresh code is drawn when one is already taken; give up after this many tries
+const MAX_CODE_ATTEMPTS = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface InviteOptions {
+  /** How many children can register with the code */
+  maxUses: number;
+  expiresInHours: number;
+  /** Approve children as soon as they register */
+  autoApprove: boolean;
+}
+
+export const DEFAULT_INVITE_OPTIONS: InviteOptions = {
+  maxUses: 1,
+  expiresInHours: 48,
+  autoApprove: false
+};
+
+export type InviteProblem = 'NOT_FOUND' | 'REVOKED' | 'EXPIRED' | 'USED_UP';
+
+const PROBLEM_MESSAGES: Record<InviteProblem, string> = {
+  NOT_FOUND: 'That invite code does not exist. Check it with your parent.',
+  REVOKED: 'That invite code has been cancelled. Ask your parent for a new one.',
+  EXPIRED: 'That invite code has expired. Ask your parent for a new one.',
+  USED_UP: 'That invite code has already been used. Ask your parent for a new one.'
+};
+
+/** Thrown when a child registers with a code that cannot be used. */
+export class InviteCodeError extends Error {
+  constructor(message: string, public problem: InviteProblem) {
+    super(message);
+    this.name = 'InviteCodeError';
+  }
+}
+
+/** Codes are shown upper case; accept them typed in any case, with spaces or dashes. */
+export const normalizeInviteCode = (code: string) => code.toUpperCase().replace(/[\s-]/g, '');
+
+/**
+ * Why an invite cannot be used right now.
+ *
+ * @param invite The invite, or null if the code does not exist
+ * @param now Current time in ms
+ * @returns The problem, or null if a child can register with it
+ */
+export function getInviteProblem(invite: FamilyInvite | null, now = Date.now()): InviteProblem | null {
+  if (!invite) return 'NOT_FOUND';
+  if (invite.revokedAt) return 'REVOKED';
+  if (now > invite.expiresAt) return 'EXPIRED';
+  if ((invite.usedBy || []).length >= invite.maxUses) return 'USED_UP';
+  return null;
+}
+
+const randomCode = () => {
+  const values = crypto.getRandomValues(new Uint32Array(CODE_LENGTH));
+  return Array.from(values, value => CODE_ALPHABET[value % CODE_ALPHABET.length]).join('');
+};
+
+// ==========================================
+// Parent Functions
+// ==========================================
+
+/**
+ * Create an invite code for a family. Children who register with it are linked
+ * to the family's parent, and approved at once if `autoApprove` is set.
+ *
+ * @param familyId The ID of the family
+ * @param options Number of uses, lifetime and auto-approval
+ * @returns The new code
+ * @throws Error if no unused code could be found
+ */
+export async function generateFamilyInviteCode(
+  familyId: string,
+  options: InviteOptions = DEFAULT_INVITE_OPTIONS
+): Promise<string> {
+  await authorize('MANAGE_FAMILY', { familyId });
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = randomCode();
+    const created = await runTransaction(db, async (transaction) => {
+      const [existing, familySnapshot] = await Promise.all([
+        transaction.get(inviteDoc(code)),
+        transaction.get(familyDoc(familyId))
+      ]);
+      if (existing.exists()) {
+        return false;
+      }
+      if (!familySnapshot.exists()) {
+        throw new Error("Family not found");
+      }
+
+      const now = Date.now();
+      const invite: FamilyInvite = {
+        code,
+        familyId,
+        parentUid: familySnapshot.data().parentUid,
+        createdAt: now,
+        expiresAt: now + options.expiresInHours * HOUR_MS,
+        maxUses: options.maxUses,
+        usedBy: [],
+        autoApprove: options.autoApprove
+      };
+      transaction.set(inviteDoc(code), invite);
+      addAuditEntry(transaction, {
+        action: 'INVITE_CREATED',
+        targetType: 'INVITE',
+        targetId: code,
+        familyId,
+        before: null,
+        after: { expiresAt: invite.expiresAt, maxUses: invite.maxUses, autoApprove: invite.autoApprove }
+      });
+      return true;
+    });
+    if (created) {
+      return code;
+    }
+  }
+  throw new Error("Could not create a unique invite code. Please try again.");
+}
+
+/**
+ * Revoke an invite so no more children can register with it.
+ * Children who already registered keep their accounts.
+ *
+ * @param invite The invite to revoke
+ */
+export async function revokeInviteCode(invite: FamilyInvite): Promise<void> {
+  await authorize('MANAGE_FAMILY', { familyId: invite.familyId });
+  await updateWithAudit(inviteDoc(invite.code), {
+    revokedAt: Date.now()
+  }, { action: 'INVITE_REVOKED' });
+}
+
+/**
+ * Listen to a family's invite codes, newest first, including used and expired ones.
+ * Use getInviteProblem() to pick out the active codes.
+ *
+ * @param familyId The ID of the family
+ * @param callback Called with the current invites
+ * @returns Function that stops listening
+ */
+export function subscribeToFamilyInvites(
+  familyId: string,
+  callback: (invites: FamilyInvite[]) => void
+): Unsubscribe {
+  const q = query(invitesCollection, where('familyId', '==', familyId));
+  return onSnapshot(q, (snapshot) => {
+    callback(snapshot.docs.map(d => d.data()).sort((a, b) => b.createdAt - a.createdAt));
+  }, (error) => {
+    console.error("Error listening to invites:", error);
+  });
+}
+
+// ==========================================
+// Registration
+// ==========================================
+
+/**
+ * Validate a family invite code.
+ *
+ * @param code The invite code, as typed
+ * @returns The invite, or null if it does not exist, was revoked, has expired or is used up
+ */
+export async function validateFamilyInviteCode(code: string): Promise<FamilyInvite | null> {
+  const normalized = normalizeInviteCode(code);
+  if (!normalized) return null;
+
+  const snapshot = await getDoc(inviteDoc(normalized));
+  const invite = snapshot.exists() ? snapshot.data() : null;
+  return getInviteProblem(invite) ? null : invite;
+}
+
+/**
+ * Use up one registration on an invite, inside the transaction that creates the
+ * child's profile. Auto-approved children are also added to the family.
+ *
+ * @param transaction The registration transaction
+ * @param code The invite code, as typed
+ * @param childUid The UID of the registering child
+ * @returns The invite, before this registration was counted
+ * @throws InviteCodeError if the code cannot be used
+ */
+export async function redeemInviteCode(transaction: Transaction, code: string, childUid: string): Promise<FamilyInvite> {
+  const ref = inviteDoc(normalizeInviteCode(code));
+  const snapshot = await transaction.get(ref);
+  const invite = snapshot.exists() ? snapshot.data() : null;
+
+  const problem = getInviteProblem(invite);
+  if (problem) {
+    throw new InviteCodeError(PROBLEM_MESSAGES[problem], problem);
+  }
+
+  transaction.update(ref, { usedBy: arrayUnion(childUid) });
+  if (invite.autoApprove) {
+    transaction.update(familyDoc(invite.familyId), { childrenUids: arrayUnion(childUid) });
+  }
+  return invite;
+}
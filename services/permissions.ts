@@ -0,0 +1,163 @@
+// services/permissions.ts
+// One place that answers "can this user do this action to that target".
+// Every mutating function in the service layer calls authorize() first. The Firestore
+// security rules (firestore.rules) enforce the same model; this check keeps honest clients
+// from making changes the rules would refuse, and gives a readable error.
+import { getDoc } from 'firebase/firestore';
+import { auth, userDoc } from '../firebase';
+import { UserProfile, UserRole, ApprovalStatus } from '../types';
+
+export type PermissionAction =
+  | 'CREATE_OWN_PROFILE'
+  | 'UPDATE_PROFILE'
+  | 'APPROVE_PARENT'
+  | 'REJECT_PARENT'
+  | 'CREATE_FAMILY'
+  | 'APPROVE_CHILD'
+  | 'REJECT_CHILD'
+  | 'SUSPEND_USER'
+  | 'UNSUSPEND_USER'
+  | 'MANAGE_FAMILY'
+  | 'MANAGE_CHILD'
+  | 'CREATE_APPROVAL_REQUEST'
+  | 'REVIEW_APPROVAL_REQUEST';
+
+/** The signed-in user; profile is null before registration finishes. */
+export interface Actor {
+  uid: string;
+  profile: UserProfile | null;
+}
+
+/** What the action applies to. Only the parts an action needs are set. */
+export interface PermissionTarget {
+  /** Target user's UID */
+  uid?: string;
+  /** Target user's profile, loaded by authorize() when uid is given */
+  user?: UserProfile | null;
+  /** Target family */
+  familyId?: string;
+  /** Profile fields being written, for UPDATE_PROFILE */
+  fields?: string[];
+}
+
+export interface PermissionDecision {
+  allowed: boolean;
+  /** Why not, when allowed is false */
+  reason?: string;
+}
+
+/** Thrown by authorize() when the signed-in user may not perform an action. */
+export class PermissionError extends Error {
+  constructor(message: string, public action: PermissionAction) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
+
+// Fields users may change on their own profile; everything else is set by a parent or admin
+const SELF_EDITABLE_FIELDS = ['displayName', 'updatedAt'];
+
+const ALLOW: PermissionDecision = { allowed: true };
+const deny = (reason: string): PermissionDecision => ({ allowed: false, reason });
+
+/** A parent acting on an approved child in their own family. */
+const isOwnChild = (parent: UserProfile, child?: UserProfile | null) =>
+  !!child && child.role === UserRole.CHILD && !!parent.familyId && child.familyId === parent.familyId;
+
+/** A pending child who registered with this parent. */
+const isOwnPendingChild = (parent: UserProfile, child?: UserProfile | null) =>
+  !!child && child.role === UserRole.PENDING_CHILD &&
+  (child.parentUid === parent.uid || (!!child.parentEmail && child.parentEmail === parent.email));
+
+/**
+ * Decide whether an actor may perform an action on a target.
+ *
+ * - Users may create their own profile and edit their display name.
+ * - Only approved accounts act on anyone else.
+ * - SUPER_ADMIN may do anything except suspend themselves; only SUPER_ADMIN approves parents.
+ * - A PARENT acts only on their own family and the children in it.
+ *
+ * @param actor The signed-in user
+ * @param action What they want to do
+ * @param target What they want to do it to
+ * @returns Whether it is allowed, with a reason when it is not
+ */
+export function can(actor: Actor, action: PermissionAction, target: PermissionTarget = {}): PermissionDecision {
+  const isSelf = !!target.uid && target.uid === actor.uid;
+
+  if (action === 'CREATE_OWN_PROFILE' || action === 'CREATE_APPROVAL_REQUEST') {
+    return isSelf ? ALLOW : deny('You can only do this for your own account.');
+  }
+
+  const { profile } = actor;
+  if (!profile) {
+    return deny('Your account profile was not found.');
+  }
+
+  if (action === 'UPDATE_PROFILE' && isSelf && (target.fields || []).every(field => SELF_EDITABLE_FIELDS.includes(field))) {
+    return ALLOW;
+  }
+
+  if (profile.approvalStatus !== ApprovalStatus.APPROVED) {
+    return deny('Your account is not approved.');
+  }
+
+  if (profile.role === UserRole.SUPER_ADMIN) {
+    return action === 'SUSPEND_USER' && isSelf ? deny('You cannot suspend your own account.') : ALLOW;
+  }
+
+  if (profile.role !== UserRole.PARENT) {
+    return deny('Only parents and admins can make this change.');
+  }
+
+  switch (action) {
+    case 'APPROVE_PARENT':
+    case 'REJECT_PARENT':
+    case 'CREATE_FAMILY':
+      return deny('Only a super admin can review parent accounts.');
+    case 'APPROVE_CHILD':
+    case 'REJECT_CHILD':
+      return isOwnPendingChild(profile, target.user) ? ALLOW : deny('This child did not register with your account.');
+    case 'SUSPEND_USER':
+    case 'UNSUSPEND_USER':
+    case 'MANAGE_CHILD':
+      return isOwnChild(profile, target.user) ? ALLOW : deny('You can only manage children in your own family.');
+    case 'MANAGE_FAMILY':
+    case 'REVIEW_APPROVAL_REQUEST':
+      return !!target.familyId && target.familyId === profile.familyId ? ALLOW : deny('You can only manage your own family.');
+    case 'UPDATE_PROFILE':
+      return deny('Use the family settings to change this account.');
+    default:
+      return deny('This action is not allowed.');
+  }
+}
+
+/**
+ * Check that the signed-in user may perform an action, loading their profile
+ * and the target user's profile from Firestore.
+ *
+ * @param action What is about to be done
+ * @param target What it will be done to
+ * @throws PermissionError if it is not allowed, or nobody is signed in
+ */
+export async function authorize(action: PermissionAction, target: PermissionTarget = {}): Promise<void> {
+  const current = auth.currentUser;
+  if (!current) {
+    throw new PermissionError('Please sign in again.', action);
+  }
+
+  const loadProfile = async (uid: string) => {
+    const snapshot = await getDoc(userDoc(uid));
+    return snapshot.exists() ? snapshot.data() : null;
+  };
+
+  const [profile, user] = await Promise.all([
+    loadProfile(current.uid),
+    target.uid && target.user === undefined ? loadProfile(target.uid) : Promise.resolve(target.user)
+  ]);
+
+  const decision = can({ uid: current.uid, profile }, action, { ...target, user });
+  if (!decision.allowed) {
+    throw new PermissionError(decision.reason || 'This action is not allowed.', action);
+  }
+}
@@ -2,13 +2,142 @@ import { User } from 'firebase/auth';
 import { isUserApproved, canAccessProxy, getUserProfile } from './userService';
 import { UserProfile, ApprovalStatus } from '../types';
 
-export class ProxyAccessDeniedError extends Error {
-  constructor(public reason: 'PENDING' | 'REJECTED' | 'SUSPENDED', message: string) {
+export type ProxyErrorCode =
+  // Account
+  | 'UNAUTHORIZED' | 'ACCOUNT_NOT_FOUND' | 'PENDING' | 'REJECTED' | 'SUSPENDED' | 'NOT_AUTHORIZED'
+  // Family rules and filter level
+  | 'BLOCKED_DOMAIN' | 'BLOCKED_CATEGORY'
+  // Allowed hours, daily limit and "Pause internet"
+  | 'SCHEDULE' | 'QUOTA' | 'PAUSED'
+  // Target validation (only public websites can be proxied)
+  | 'INVALID_URL' | 'UNSUPPORTED_SCHEME' | 'CREDENTIALS_IN_URL' | 'PORT_NOT_ALLOWED' | 'IP_LITERAL' | 'PRIVATE_HOST' | 'PRIVATE_ADDRESS'
+  // Fetching the page
+  | 'DNS_FAILURE' | 'TOO_MANY_REDIRECTS' | 'UPSTREAM_ERROR' | 'TIMEOUT' | 'EMPTY_RESPONSE' | 'NETWORK_ERROR'
+  // Proxy service
+  | 'CONFIGURATION_ERROR' | 'SERVICE_UNAVAILABLE' | 'INVALID_REQUEST' | 'METHOD_NOT_ALLOWED';
+
+/** Extra fields the Worker sends with some errors. */
+export interface ProxyErrorDetails {
+  /** HTTP status of the failed response */
+  status?: number;
+  domain?: string;
+  /** Matched family rule pattern (BLOCKED_DOMAIN) */
+  rule?: string;
+  category?: string;
+  /** Preset level, when the child is not on a custom policy */
+  filterLevel?: string;
+  /** Name of the filter policy that blocked the site (BLOCKED_CATEGORY) */
+  policy?: string;
+  timeZone?: string;
+  /** When browsing is allowed again (SCHEDULE), null if never this week */
+  nextStart?: { weekday: string; start: string } | null;
+  limitSeconds?: number;
+  usedSeconds?: number;
+  /** Who was paused (PAUSED) */
+  scope?: 'CHILD' | 'FAMILY';
+  /** When a pause lifts by itself (PAUSED), null if a parent has to resume browsing */
+  until?: number | null;
+}
+
+/** Base class for everything fetchProxiedContent throws; `code` matches the Worker's `error` field. */
+export class ProxyError extends Error {
+  constructor(public code: ProxyErrorCode, message: string, public details: ProxyErrorDetails = {}) {
     super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+/** The proxy refused the request. */
+export class ProxyAccessDeniedError extends ProxyError {
+  constructor(code: ProxyErrorCode, message: string, details?: ProxyErrorDetails) {
+    super(code, message, details);
     this.name = 'ProxyAccessDeniedError';
   }
 }
 
+/** The account cannot use the proxy: signed out, pending, rejected or suspended. */
+export class AccountAccessError extends ProxyAccessDeniedError {
+  constructor(code: ProxyErrorCode, message: string, details?: ProxyErrorDetails) {
+    super(code, message, details);
+    this.name = 'AccountAccessError';
+  }
+}
+
+/** A family rule (BLOCKED_DOMAIN) or the filter level (BLOCKED_CATEGORY) blocks the site. */
+export class SiteBlockedError extends ProxyAccessDeniedError {
+  constructor(code: ProxyErrorCode, message: string, details?: ProxyErrorDetails) {
+    super(code, message, details);
+    this.name = 'SiteBlockedError';
+  }
+}
+
+/** Outside the allowed hours (SCHEDULE), the daily limit is used up (QUOTA) or a parent paused browsing (PAUSED). */
+export class TimeLimitError extends ProxyAccessDeniedError {
+  constructor(code: ProxyErrorCode, message: string, details?: ProxyErrorDetails) {
+    super(code, message, details);
+    this.name = 'TimeLimitError';
+  }
+}
+
+/** The address is not a public website (private network, IP literal, odd port, ...). */
+export class UnsafeTargetError extends ProxyAccessDeniedError {
+  constructor(code: ProxyErrorCode, message: string, details?: ProxyErrorDetails) {
+    super(code, message, details);
+    this.name = 'UnsafeTargetError';
+  }
+}
+
+/** The page could not be fetched: the site failed or timed out, or the Worker could not be reached. */
+export class ProxyUpstreamError extends ProxyError {
+  constructor(code: ProxyErrorCode, message: string, details?: ProxyErrorDetails) {
+    super(code, message, details);
+    this.name = 'ProxyUpstreamError';
+  }
+}
+
+const ERROR_CLASSES: [ProxyErrorCode[], typeof ProxyError][] = [
+  [['UNAUTHORIZED', 'ACCOUNT_NOT_FOUND', 'PENDING', 'REJECTED', 'SUSPENDED', 'NOT_AUTHORIZED'], AccountAccessError],
+  [['BLOCKED_DOMAIN', 'BLOCKED_CATEGORY'], SiteBlockedError],
+  [['SCHEDULE', 'QUOTA', 'PAUSED'], TimeLimitError],
+  [['INVALID_URL', 'UNSUPPORTED_SCHEME', 'CREDENTIALS_IN_URL', 'PORT_NOT_ALLOWED', 'IP_LITERAL', 'PRIVATE_HOST', 'PRIVATE_ADDRESS'], UnsafeTargetError],
+  [['DNS_FAILURE', 'TOO_MANY_REDIRECTS', 'UPSTREAM_ERROR', 'TIMEOUT', 'EMPTY_RESPONSE', 'NETWORK_ERROR'], ProxyUpstreamError]
+];
+
+/**
+ * Turn a Worker error body ({ error, message, ...details }) into the matching error class.
+ * Unknown codes become a plain ProxyError.
+ */
+export const createProxyError = (code: string, message: string, details?: ProxyErrorDetails): ProxyError => {
+  const entry = ERROR_CLASSES.find(([codes]) => codes.includes(code as ProxyErrorCode));
+  const ErrorClass = entry ? entry[1] : ProxyError;
+  return new ErrorClass(code as ProxyErrorCode, message, details);
+};
+
+/** The Worker's error body: { error: CODE, message, ...details }. */
+interface ProxyErrorBody extends ProxyErrorDetails {
+  error: string;
+  message?: string;
+}
+
+const isProxyErrorBody = (body: unknown): body is ProxyErrorBody => {
+  if (typeof body !== 'object' || body === null) return false;
+  const { error, message } = body as Record<string, unknown>;
+  return typeof error === 'string' && (message === undefined || typeof message === 'string');
+};
+
+/**
+ * Turn a Worker refusal into the matching error class. The body is parsed JSON of
+ * unknown shape; anything that is not an error body falls back to the header code.
+ */
+export const createProxyErrorFromBody = (body: unknown, fallbackCode: string, status: number): ProxyError => {
+  const fallbackMessage = "Access Denied: Parental controls have blocked this site.";
+  if (!isProxyErrorBody(body)) {
+    return createProxyError(fallbackCode, fallbackMessage, { status });
+  }
+  const { error: code, message, ...details } = body;
+  return createProxyError(code || fallbackCode, message || fallbackMessage, { ...details, status });
+};
+
 // ==============================================================================
 // 🚀 DEPLOYMENT CONFIGURATION
 // ==============================================================================
@@ -22,13 +151,38 @@ export const getProxyMode = (): 'LIVE' | 'DEMO' => {
 
 // ==============================================================================
 
-export const fetchProxiedContent = async (targetUrl: string, user: User | null, userProfile?: UserProfile | null): Promise<string> => {
+export interface QuotaStatus {
+  /** null when there is no limit today */
+  limitSeconds: number | null;
+  usedSeconds: number;
+  remainingSeconds: number | null;
+  /** How often the Dashboard should send active heartbeats */
+  heartbeatSeconds: number;
+}
+
+export interface ProxiedPage {
+  html: string;
+  // Where the page ended up after the Worker followed any redirects
+  finalUrl: string;
+}
+
+/**
+ * Turn a Worker proxy URL ("/proxy/<session>/https/example.com/path") back into
+ * the original address. Other URLs are returned unchanged.
+ */
+export const fromProxyUrl = (href: string): string => {
+  const match = href.match(/\/proxy\/[^/]+\/(https?)\/([^/?#]+)(.*)$/);
+  return match ? `${match[1]}://${match[2]}${match[3] || '/'}` : href;
+};
+
+export const fetchProxiedContent = async (targetUrl: string, user: User | null, userProfile?: UserProfile | null): Promise<ProxiedPage> => {
   // 1. Auth Check
   if (!user) {
-    throw new Error("User must be authenticated to use the proxy.");
+    throw new AccountAccessError('UNAUTHORIZED', "User must be authenticated to use the proxy.");
   }
 
   // 1a. Approval Status Check
+  // This only gives early feedback; the Worker re-checks the profile it loads from Firestore.
   let profile = userProfile;
   
   if (!profile) {
@@ -41,33 +195,34 @@ export const fetchProxiedContent = async (targetUrl: string, user: User | null,
   }
 
   if (!profile) {
-    throw new Error("User profile not found. Access denied.");
+    throw new AccountAccessError('ACCOUNT_NOT_FOUND', "User profile not found. Access denied.");
   }
 
   if (!canAccessProxy(profile)) {
     const status = profile.approvalStatus;
     
     if (status === ApprovalStatus.PENDING) {
-      throw new ProxyAccessDeniedError('PENDING', "Your account is pending approval. Please wait for admin/parent approval.");
+      throw new AccountAccessError('PENDING', "Your account is pending approval. Please wait for admin/parent approval.");
     } else if (status === ApprovalStatus.REJECTED) {
-      throw new ProxyAccessDeniedError('REJECTED', "Your account access has been denied.");
+      throw new AccountAccessError('REJECTED', "Your account access has been denied.");
     } else if (status === ApprovalStatus.SUSPENDED) {
-      throw new ProxyAccessDeniedError('SUSPENDED', "Your account has been suspended.");
+      throw new AccountAccessError('SUSPENDED', "Your account has been suspended.");
     } else {
-      throw new Error("Access Denied: You are not authorized to use this service.");
+      throw new AccountAccessError('NOT_AUTHORIZED', "Access Denied: You are not authorized to use this service.");
     }
   }
 
-  // 1b. Configuration Check
-  if (!WORKER_ENDPOINT) {
-    throw new Error("Proxy Worker URL is not configured (VITE_PROXY_WORKER_URL missing).");
-  }
-
   // 2. URL Normalization
   if (!targetUrl.startsWith('http')) {
     targetUrl = `https://${targetUrl}`;
   }
 
+  // 2a. Demo Mode: without a Worker, bundled sample sites are filtered in the browser
+  if (!WORKER_ENDPOINT) {
+    const { fetchDemoPage } = await import('./demoProxy');
+    return fetchDemoPage(targetUrl, profile);
+  }
+
   try {
     let response: Response;
 
@@ -81,43 +236,80 @@ export const fetchProxiedContent = async (targetUrl: string, user: User | null,
       
       response = await fetch(proxyUrl.toString(), {
         headers: {
-          'Authorization': `Bearer ${token}`,
-          'X-Filter-Level': profile.filterLevel || 'MODERATE'
+          'Authorization': `Bearer ${token}`
         }
       });
     } catch (err) {
-      throw new Error(`Invalid Worker Endpoint URL: ${WORKER_ENDPOINT}`);
+      throw new ProxyUpstreamError('NETWORK_ERROR', `Could not reach the proxy Worker at ${WORKER_ENDPOINT}.`);
     }
 
-    if (response.status === 403) {
-      throw new Error("Access Denied: Parental controls have blocked this site.");
+    // The Worker's own refusals carry X-Proxy-Error and a JSON body: { error, message, ...details }
+    const proxyErrorCode = response.headers.get('X-Proxy-Error');
+    if (proxyErrorCode) {
+      let body: unknown = null;
+      try {
+        body = await response.json();
+      } catch (err) {
+        // Fall back to the header code
+      }
+      throw createProxyErrorFromBody(body, proxyErrorCode, response.status);
     }
     
+    // Anything else that failed is the target site's own error
     if (!response.ok) {
-      throw new Error(`Proxy connection failed: ${response.status} ${response.statusText}`);
+      throw new ProxyUpstreamError(
+        'UPSTREAM_ERROR',
+        `The website responded with ${response.status} ${response.statusText}.`.replace(' .', '.'),
+        { status: response.status }
+      );
     }
 
-    let html = await response.text();
+    const html = await response.text();
 
     if (!html || html.trim().length === 0) {
-        throw new Error("The website returned empty content.");
+      throw new ProxyUpstreamError('EMPTY_RESPONSE', "The website returned empty content.");
     }
 
-    // 4. Content Rewriting (Client-Side Backup)
-    // Even though the Worker rewrites URLs, we keep the <base> tag as a backup
-    // for scripts that might dynamically load assets.
-    const baseTag = `<base href="${targetUrl}" target="_blank" />`; 
-
-    if (html.toLowerCase().includes('<head>')) {
-      html = html.replace(/<head>/i, `<head>${baseTag}`);
-    } else {
-      html = `${baseTag}${html}`;
-    }
-
-    return html;
+    // The Worker has already routed every URL through the proxy and injected the
+    // Dashboard bridge script, so the HTML is ready for the sandboxed frame.
+    return {
+      html,
+      finalUrl: response.headers.get('X-Proxy-Final-Url') || targetUrl
+    };
 
   } catch (error: any) {
     console.error("Proxy Service Error:", error);
-    throw new Error(error.message || "Failed to load the website. It might be blocking proxy access.");
+    if (error instanceof ProxyError) throw error;
+    throw new ProxyUpstreamError('UPSTREAM_ERROR', error.message || "Failed to load the website. It might be blocking proxy access.");
+  }
+};
+
+/**
+ * Report browsing activity to the Worker and get today's screen-time status.
+ * Send `active: true` once per heartbeat interval while a page is on screen;
+ * `active: false` only reads the status.
+ */
+export const sendHeartbeat = async (user: User, active: boolean): Promise<QuotaStatus | null> => {
+  if (!WORKER_ENDPOINT) {
+    const profile = await getUserProfile(user.uid);
+    if (!profile) return null;
+    const { sendDemoHeartbeat } = await import('./demoProxy');
+    return sendDemoHeartbeat(profile, active);
   }
-};
\ No newline at end of file
+
+  const token = await user.getIdToken();
+  const response = await fetch(new URL('/heartbeat', WORKER_ENDPOINT).toString(), {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ active })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Heartbeat failed: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+};
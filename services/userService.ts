@@ -8,6 +8,7 @@ import {
   getDocs,
   addDoc,
   serverTimestamp,
+  deleteField,
   runTransaction,
   doc,
   Timestamp,
@@ -30,6 +31,9 @@ import {
   FilterLevel,
   Family
 } from '../types';
+import { addAuditEntry, updateWithAudit } from './auditService';
+import { authorize } from './permissions';
+import { redeemInviteCode } from './inviteService';
 
 // ==========================================
 // User CRUD Functions
@@ -41,13 +45,18 @@ import {
  * @param user The Firebase Auth user object
  * @param role The initial role (PENDING_PARENT or PENDING_CHILD)
  * @param parentEmail Optional parent email for child accounts
+ * @param inviteCode Optional family invite code for child accounts; links the child to the
+ *   family at once, and approves them if the invite allows it
  * @returns The created UserProfile
+ * @throws InviteCodeError if the invite code cannot be used
  */
 export async function createUserProfile(
   user: User,
   role: UserRole.PENDING_PARENT | UserRole.PENDING_CHILD,
-  parentEmail?: string
+  parentEmail?: string,
+  inviteCode?: string
 ): Promise<UserProfile> {
+  await authorize('CREATE_OWN_PROFILE', { uid: user.uid });
   const currentTimestamp = Date.now();
 
   const newUserProfile: UserProfile = {
@@ -67,6 +76,27 @@ export async function createUserProfile(
     // For now, storing parentEmail is sufficient for the pending state.
   }
 
+  if (role === UserRole.PENDING_CHILD && inviteCode) {
+    // The invite is used up in the same transaction, so two children cannot share its last use
+    return runTransaction(db, async (transaction) => {
+      const invite = await redeemInviteCode(transaction, inviteCode, user.uid);
+      const profile: UserProfile = {
+        ...newUserProfile,
+        parentUid: invite.parentUid,
+        familyId: invite.familyId,
+        inviteCode: invite.code
+      };
+      if (invite.autoApprove) {
+        profile.role = UserRole.CHILD;
+        profile.approvalStatus = ApprovalStatus.APPROVED;
+        profile.approvedBy = invite.parentUid;
+        profile.approvedAt = currentTimestamp;
+      }
+      transaction.set(userDoc(user.uid), profile);
+      return profile;
+    });
+  }
+
   await setDoc(userDoc(user.uid), newUserProfile);
   return newUserProfile;
 }
@@ -92,6 +122,7 @@ export async function getUserProfile(uid: string): Promise<UserProfile | null> {
  * @param updates Partial UserProfile object containing fields to update
  */
 export async function updateUserProfile(uid: string, updates: Partial<UserProfile>): Promise<void> {
+  await authorize('UPDATE_PROFILE', { uid, fields: Object.keys(updates) });
   await updateDoc(userDoc(uid), {
     ...updates,
     updatedAt: Date.now()
@@ -143,44 +174,43 @@ export async function getPendingParentRequests(): Promise<UserProfile[]> {
 
 /**
  * Get pending child requests associated with a specific parent.
- * This currently relies on the 'parentUid' or 'parentEmail' linkage.
+ * Children who registered with an invite code carry the parent's UID; children who
+ * entered the parent's email only carry parentEmail. Both are listed, once each.
  *
  * @param parentUid The parent's UID
  * @returns Array of pending child UserProfiles
  */
 export async function getPendingChildRequestsForParent(parentUid: string): Promise<UserProfile[]> {
-  // First try seeing if they are already linked by parentUid
   const qByUid = query(
     usersCollection,
     where('role', '==', UserRole.PENDING_CHILD),
     where('parentUid', '==', parentUid)
   );
-  const snapshotByUid = await getDocs(qByUid);
-  
-  if (!snapshotByUid.empty) {
-    return snapshotByUid.docs.map(doc => doc.data());
-  }
-
-  // Fallback: If not linked by UID yet, we might need to look up by email match if we have the parent's email.
-  // Ideally, the parentUid is set on creation if known, or we query by parentEmail.
-  // Getting the parent profile to find their email
   const parentProfile = await getUserProfile(parentUid);
-  if (parentProfile?.email) {
-    const qByEmail = query(
+  const qByEmail = parentProfile?.email
+    ? query(
       usersCollection,
       where('role', '==', UserRole.PENDING_CHILD),
       where('parentEmail', '==', parentProfile.email)
-    );
-    const snapshotByEmail = await getDocs(qByEmail);
-    return snapshotByEmail.docs.map(doc => doc.data());
-  }
+    )
+    : null;
+
+  const [snapshotByUid, snapshotByEmail] = await Promise.all([
+    getDocs(qByUid),
+    qByEmail ? getDocs(qByEmail) : Promise.resolve(null)
+  ]);
 
-  return [];
+  const children = new Map<string, UserProfile>();
+  [...snapshotByUid.docs, ...(snapshotByEmail?.docs || [])].forEach(doc => {
+    children.set(doc.id, doc.data());
+  });
+  return [...children.values()];
 }
 
 // ==========================================
 // Approval Functions
 // ==========================================
+// Every change here is recorded in the audit log in the same transaction.
 
 /**
  * Admin approves a parent request.
@@ -190,6 +220,7 @@ export async function getPendingChildRequestsForParent(parentUid: string): Promi
  * @param parentUid The UID of the parent being approved
  */
 export async function approveParentRequest(adminUid: string, parentUid: string): Promise<void> {
+  await authorize('APPROVE_PARENT', { uid: parentUid });
   const currentTimestamp = Date.now();
 
   await runTransaction(db, async (transaction) => {
@@ -224,6 +255,16 @@ export async function approveParentRequest(adminUid: string, parentUid: string):
       approvedAt: currentTimestamp,
       updatedAt: currentTimestamp
     });
+
+    addAuditEntry(transaction, {
+      action: 'PARENT_APPROVED',
+      targetType: 'USER',
+      targetId: parentUid,
+      targetName: parentData.displayName || parentData.email,
+      familyId: newFamilyRef.id,
+      before: { role: parentData.role, approvalStatus: parentData.approvalStatus },
+      after: { role: UserRole.PARENT, approvalStatus: ApprovalStatus.APPROVED, familyId: newFamilyRef.id }
+    });
   });
 }
 
@@ -235,14 +276,15 @@ export async function approveParentRequest(adminUid: string, parentUid: string):
  * @param reason The reason for rejection
  */
 export async function rejectParentRequest(adminUid: string, parentUid: string, reason: string): Promise<void> {
+  await authorize('REJECT_PARENT', { uid: parentUid });
   const currentTimestamp = Date.now();
-  await updateDoc(userDoc(parentUid), {
+  await updateWithAudit(userDoc(parentUid), {
     approvalStatus: ApprovalStatus.REJECTED,
     rejectedReason: reason,
     approvedBy: adminUid, // acting as "reviewed by"
     approvedAt: currentTimestamp, // acting as "reviewed at"
     updatedAt: currentTimestamp
-  });
+  }, { action: 'PARENT_REJECTED', reason });
 }
 
 /**
@@ -253,6 +295,7 @@ export async function rejectParentRequest(adminUid: string, parentUid: string, r
  * @param childUid The UID of the child being approved
  */
 export async function approveChildRequest(parentUid: string, childUid: string): Promise<void> {
+  await authorize('APPROVE_CHILD', { uid: childUid });
   const currentTimestamp = Date.now();
 
   await runTransaction(db, async (transaction) => {
@@ -274,6 +317,7 @@ export async function approveChildRequest(parentUid: string, childUid: string):
     if (!childSnap.exists()) {
       throw new Error("Child not found");
     }
+    const childData = childSnap.data() as UserProfile;
 
     // 3. Get Family Data
     const familyRef = familyDoc(parentData.familyId);
@@ -312,6 +356,16 @@ export async function approveChildRequest(parentUid: string, childUid: string):
         childrenUids: updatedFamilyChildren
       });
     }
+
+    addAuditEntry(transaction, {
+      action: 'CHILD_APPROVED',
+      targetType: 'USER',
+      targetId: childUid,
+      targetName: childData.displayName || childData.email,
+      familyId: parentData.familyId,
+      before: { role: childData.role, approvalStatus: childData.approvalStatus },
+      after: { role: UserRole.CHILD, approvalStatus: ApprovalStatus.APPROVED, familyId: parentData.familyId }
+    });
   });
 }
 
@@ -323,14 +377,17 @@ export async function approveChildRequest(parentUid: string, childUid: string):
  * @param reason The reason for rejection
  */
 export async function rejectChildRequest(parentUid: string, childUid: string, reason: string): Promise<void> {
+  await authorize('REJECT_CHILD', { uid: childUid });
   const currentTimestamp = Date.now();
-  await updateDoc(userDoc(childUid), {
+  // A pending child has no family yet, so the entry goes to the parent's
+  const parent = await getUserProfile(parentUid);
+  await updateWithAudit(userDoc(childUid), {
     approvalStatus: ApprovalStatus.REJECTED,
     rejectedReason: reason,
     approvedBy: parentUid, // acting as reviewer
     approvedAt: currentTimestamp,
     updatedAt: currentTimestamp
-  });
+  }, { action: 'CHILD_REJECTED', reason, familyId: parent?.familyId });
 }
 
 /**
@@ -341,13 +398,27 @@ export async function rejectChildRequest(parentUid: string, childUid: string, re
  * @param reason Reason for suspension
  */
 export async function suspendUser(suspenderUid: string, targetUid: string, reason: string): Promise<void> {
+  await authorize('SUSPEND_USER', { uid: targetUid });
   const currentTimestamp = Date.now();
-  // Note: In a real app, we should verify permissions here (Admin can suspend anyone, Parent can suspend own child)
-  await updateDoc(userDoc(targetUid), {
+  await updateWithAudit(userDoc(targetUid), {
     approvalStatus: ApprovalStatus.SUSPENDED,
     rejectedReason: reason, // Reusing rejectedReason for suspension reason
     updatedAt: currentTimestamp
-  });
+  }, { action: 'USER_SUSPENDED', reason });
+}
+
+/**
+ * Lift a suspension, restoring the account to APPROVED.
+ *
+ * @param targetUid The UID of the suspended user
+ */
+export async function unsuspendUser(targetUid: string): Promise<void> {
+  await authorize('UNSUSPEND_USER', { uid: targetUid });
+  await updateWithAudit(userDoc(targetUid), {
+    approvalStatus: ApprovalStatus.APPROVED,
+    rejectedReason: deleteField(), // Cleared along with the suspension
+    updatedAt: Date.now()
+  }, { action: 'USER_UNSUSPENDED' });
 }
 
 // ==========================================
@@ -361,6 +432,7 @@ export async function suspendUser(suspenderUid: string, targetUid: string, reaso
  * @returns The ID of the created request document
  */
 export async function createApprovalRequest(request: Omit<ApprovalRequest, 'id' | 'createdAt'>): Promise<string> {
+  await authorize('CREATE_APPROVAL_REQUEST', { uid: request.requesterId });
   const newRequestRef = doc(approvalRequestsCollection);
   const newRequest: ApprovalRequest = {
     ...request,
@@ -399,6 +471,10 @@ export async function updateApprovalRequestStatus(
   notes?: string
 ): Promise<void> {
   const ref = doc(approvalRequestsCollection, requestId);
+  // Parents may review requests for their own family; requests without one are for admins
+  const request = await getDoc(ref);
+  await authorize('REVIEW_APPROVAL_REQUEST', { familyId: request.data()?.targetFamilyId });
+
   const updates: Partial<ApprovalRequest> = {
     status,
     reviewerId,
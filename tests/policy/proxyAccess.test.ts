@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getPresetPolicy } from '../../policy/filterPolicies.js';
+import {
+  MIN_HEARTBEAT_GAP_MS,
+  evaluateCallerAccess,
+  evaluateTargetPolicy,
+  getAlertCategory,
+  getDailyLimitSeconds,
+  shouldCreditScreenTime
+} from '../../policy/proxyAccess.js';
+
+const child = (overrides: object = {}) => ({ uid: 'child-uid', role: 'CHILD', ...overrides });
+const caller = (profile: object, settings: object = {}) => ({ profile, family: { settings } });
+
+const spentQuota = { limitSeconds: 3600, usedSeconds: 3600, remainingSeconds: 0 };
+const openQuota = { limitSeconds: 3600, usedSeconds: 60, remainingSeconds: 3540 };
+
+// An empty schedule has no windows, so browsing is never allowed
+const NO_WINDOWS = {};
+
+describe('evaluateCallerAccess', () => {
+  it('lets a child without limits browse', async () => {
+    await expect(evaluateCallerAccess(caller(child()), () => openQuota)).resolves.toBeNull();
+  });
+
+  it('checks the pause first', async () => {
+    const loadQuota = vi.fn(() => spentQuota);
+    const denial = await evaluateCallerAccess(
+      caller(child({ schedule: NO_WINDOWS, dailyQuota: { mon: 60 }, pause: { until: null } })),
+      loadQuota
+    );
+
+    expect(denial).toMatchObject({ code: 'PAUSED', details: { scope: 'CHILD', until: null } });
+    expect(loadQuota).not.toHaveBeenCalled();
+  });
+
+  it('checks allowed hours before the quota, without loading usage', async () => {
+    const loadQuota = vi.fn(() => spentQuota);
+    const denial = await evaluateCallerAccess(caller(child({ schedule: NO_WINDOWS, dailyQuota: { mon: 60 } })), loadQuota);
+
+    expect(denial).toEqual({
+      code: 'SCHEDULE',
+      message: 'Browsing is not allowed at any time on your current schedule.',
+      details: { timeZone: 'UTC', nextStart: null }
+    });
+    expect(loadQuota).not.toHaveBeenCalled();
+  });
+
+  it('refuses once the daily quota is spent', async () => {
+    const denial = await evaluateCallerAccess(caller(child({ dailyQuota: { mon: 60 } })), () => spentQuota);
+
+    expect(denial).toEqual({
+      code: 'QUOTA',
+      message: 'You have used all 60 minutes of browsing time for today.',
+      details: { limitSeconds: 3600, usedSeconds: 3600 }
+    });
+  });
+
+  it('allows browsing with time left, or no limit today', async () => {
+    const profile = child({ dailyQuota: { mon: 60 } });
+    await expect(evaluateCallerAccess(caller(profile), () => openQuota)).resolves.toBeNull();
+    await expect(evaluateCallerAccess(caller(profile), () => ({ limitSeconds: null, usedSeconds: 0, remainingSeconds: null })))
+      .resolves.toBeNull();
+  });
+
+  it('passes on errors from loading usage', async () => {
+    const failing = () => Promise.reject(new Error('Firestore unavailable'));
+    await expect(evaluateCallerAccess(caller(child({ dailyQuota: { mon: 60 } })), failing)).rejects.toThrow('Firestore unavailable');
+  });
+});
+
+describe('evaluateTargetPolicy', () => {
+  const moderate = getPresetPolicy('MODERATE');
+
+  it('lets block rules win over allow rules', () => {
+    const result = evaluateTargetPolicy(
+      caller(child(), { allowRules: [{ pattern: 'example.com' }], blockRules: [{ pattern: '*.example.com' }] }),
+      moderate,
+      new URL('https://example.com/')
+    );
+
+    expect(result.denial).toMatchObject({ code: 'BLOCKED_DOMAIN', details: { domain: 'example.com', rule: '*.example.com' } });
+    expect(result.rule).toBe('*.example.com');
+  });
+
+  it('skips the category check for allowed sites', () => {
+    const result = evaluateTargetPolicy(caller(child(), { allowRules: [{ pattern: 'bet365.com' }] }), moderate, new URL('https://bet365.com/'));
+
+    expect(result).toEqual({ denial: null, rule: 'bet365.com' });
+  });
+
+  it('blocks categories in the filter policy', () => {
+    const result = evaluateTargetPolicy(caller(child()), moderate, new URL('https://www.bet365.com/'));
+
+    expect(result.denial).toMatchObject({
+      code: 'BLOCKED_CATEGORY',
+      details: { category: 'gambling', domain: 'bet365.com', filterLevel: 'MODERATE', policy: 'Moderate' }
+    });
+    expect(result.rule).toBe('category:gambling');
+  });
+
+  it('allows anything else', () => {
+    expect(evaluateTargetPolicy(caller(child()), moderate, new URL('https://britannica.com/'))).toEqual({ denial: null, rule: null });
+  });
+});
+
+describe('screen time', () => {
+  it('reads today\'s limit from the daily quota', () => {
+    expect(getDailyLimitSeconds({ dailyQuota: { mon: 90 } }, 'mon')).toBe(5400);
+    expect(getDailyLimitSeconds({ dailyQuota: { mon: 90 } }, 'tue')).toBeNull();
+    expect(getDailyLimitSeconds({}, 'mon')).toBeNull();
+  });
+
+  it('credits children at most once per gap, and never while paused', () => {
+    const now = 1_000_000_000;
+    expect(shouldCreditScreenTime(caller(child()), now - MIN_HEARTBEAT_GAP_MS, now)).toBe(true);
+    expect(shouldCreditScreenTime(caller(child()), now - MIN_HEARTBEAT_GAP_MS + 1, now)).toBe(false);
+    expect(shouldCreditScreenTime(caller({ uid: 'parent-uid', role: 'PARENT' }), 0, now)).toBe(false);
+    expect(shouldCreditScreenTime(caller(child(), { pause: { until: now + 1000 } }), 0, now)).toBe(false);
+  });
+});
+
+describe('getAlertCategory', () => {
+  it('only counts category blocks', () => {
+    expect(getAlertCategory('BLOCKED_CATEGORY', 'category:adult')).toBe('adult');
+    expect(getAlertCategory('BLOCKED_DOMAIN', 'example.com')).toBeNull();
+    expect(getAlertCategory(null, null)).toBeNull();
+  });
+});
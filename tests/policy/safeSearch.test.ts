@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { applySafeSearch } from '../../policy/safeSearch.js';
+
+const rewrite = (mode: 'STRICT' | 'MODERATE' | 'OFF', href: string) => applySafeSearch(mode, new URL(href));
+
+describe('applySafeSearch', () => {
+  describe('Google', () => {
+    it('overwrites safe=off on search pages', () => {
+      const result = rewrite('STRICT', 'https://www.google.com/search?q=cats&safe=off');
+
+      expect(result.engine).toBe('google');
+      expect(result.url.searchParams.getAll('safe')).toEqual(['active']);
+      expect(result.url.searchParams.get('q')).toBe('cats');
+    });
+
+    it('covers country domains and image search', () => {
+      const result = rewrite('MODERATE', 'https://google.co.uk/imghp/');
+
+      expect(result.engine).toBe('google');
+      expect(result.url.searchParams.get('safe')).toBe('active');
+    });
+
+    it('leaves non-search paths alone', () => {
+      const result = rewrite('STRICT', 'https://www.google.com/maps?q=park');
+
+      expect(result.engine).toBeNull();
+      expect(result.url.href).toBe('https://www.google.com/maps?q=park');
+      expect(result.headers).toEqual({});
+    });
+  });
+
+  describe('Bing', () => {
+    it('sets the adlt parameter and the preference cookie', () => {
+      const result = rewrite('STRICT', 'https://www.bing.com/search?q=cats&adlt=off');
+
+      expect(result.engine).toBe('bing');
+      expect(result.url.searchParams.getAll('adlt')).toEqual(['strict']);
+      expect(result.headers).toEqual({ Cookie: 'SRCHHPGUSR=ADLT=STRICT' });
+    });
+
+    it('uses the moderate level in MODERATE mode', () => {
+      const result = rewrite('MODERATE', 'https://bing.com/images/search?q=cats');
+
+      expect(result.url.searchParams.get('adlt')).toBe('moderate');
+      expect(result.headers.Cookie).toBe('SRCHHPGUSR=ADLT=MODERATE');
+    });
+  });
+
+  describe('DuckDuckGo', () => {
+    it('sets the kp parameter', () => {
+      expect(rewrite('STRICT', 'https://duckduckgo.com/?q=cats&kp=-2').url.searchParams.getAll('kp')).toEqual(['1']);
+      expect(rewrite('MODERATE', 'https://html.duckduckgo.com/html/?q=cats').url.searchParams.get('kp')).toBe('-1');
+    });
+  });
+
+  describe('YouTube', () => {
+    it('sets the Restricted Mode header and keeps the URL', () => {
+      const result = rewrite('STRICT', 'https://www.youtube.com/watch?v=abc');
+
+      expect(result.engine).toBe('youtube');
+      expect(result.headers).toEqual({ 'YouTube-Restrict': 'Strict' });
+      expect(result.url.href).toBe('https://www.youtube.com/watch?v=abc');
+    });
+
+    it('covers the API host used by the player', () => {
+      expect(rewrite('MODERATE', 'https://youtubei.googleapis.com/youtubei/v1/search').headers)
+        .toEqual({ 'YouTube-Restrict': 'Moderate' });
+    });
+  });
+
+  describe('OFF', () => {
+    it.each([
+      'https://www.google.com/search?q=cats&safe=off',
+      'https://www.bing.com/search?q=cats',
+      'https://duckduckgo.com/?q=cats',
+      'https://www.youtube.com/watch?v=abc'
+    ])('leaves %s untouched', (href) => {
+      const result = rewrite('OFF', href);
+
+      expect(result.engine).toBeNull();
+      expect(result.url.href).toBe(href);
+      expect(result.headers).toEqual({});
+    });
+  });
+
+  it('returns a copy rather than changing the URL it was given', () => {
+    const original = new URL('https://www.google.com/search?q=cats');
+    applySafeSearch('STRICT', original);
+
+    expect(original.searchParams.has('safe')).toBe(false);
+  });
+});
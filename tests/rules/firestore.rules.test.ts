@@ -0,0 +1,370 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+
+// Runs against the Firestore emulator: npm run test:rules
+const PROJECT_ID = 'demo-openfamilysafe';
+const CHILD_ACCOUNT_EMAIL_DOMAIN = 'kids.openfamilysafe.invalid';
+const HOUR_MS = 60 * 60 * 1000;
+
+const now = Date.now();
+const arrayUnion = (...values: string[]) => firebase.firestore.FieldValue.arrayUnion(...values);
+
+const profile = (uid: string, fields: object) => ({
+  uid,
+  email: `${uid}@example.com`,
+  displayName: uid,
+  filterLevel: 'MODERATE',
+  createdAt: now,
+  updatedAt: now,
+  ...fields
+});
+
+const invite = (code: string, fields: object = {}) => ({
+  code,
+  familyId: 'familyA',
+  parentUid: 'parentA',
+  createdAt: now,
+  expiresAt: now + 48 * HOUR_MS,
+  maxUses: 1,
+  usedBy: [],
+  autoApprove: false,
+  ...fields
+});
+
+// Two families, each with an approved parent and child, plus invites to family A in every state
+const SEED: Record<string, object> = {
+  'users/parentA': profile('parentA', { role: 'PARENT', approvalStatus: 'APPROVED', familyId: 'familyA', childrenUids: ['childA'] }),
+  'users/childA': profile('childA', { role: 'CHILD', approvalStatus: 'APPROVED', familyId: 'familyA', parentUid: 'parentA' }),
+  'users/pendingA': profile('pendingA', { role: 'PENDING_CHILD', approvalStatus: 'PENDING', parentUid: 'parentA' }),
+  'users/parentB': profile('parentB', { role: 'PARENT', approvalStatus: 'APPROVED', familyId: 'familyB', childrenUids: ['childB'] }),
+  'users/childB': profile('childB', { role: 'CHILD', approvalStatus: 'APPROVED', familyId: 'familyB', parentUid: 'parentB' }),
+  'families/familyA': { id: 'familyA', parentUid: 'parentA', childrenUids: ['childA'], settings: {} },
+  'families/familyB': { id: 'familyB', parentUid: 'parentB', childrenUids: ['childB'], settings: {} },
+  'invites/OPEN01': invite('OPEN01'),
+  'invites/AUTO01': invite('AUTO01', { autoApprove: true }),
+  'invites/REVOKD': invite('REVOKD', { revokedAt: now - HOUR_MS }),
+  'invites/EXPIRD': invite('EXPIRD', { createdAt: now - 2 * HOUR_MS, expiresAt: now - HOUR_MS }),
+  'invites/USEDUP': invite('USEDUP', { usedBy: ['earlierChild'] })
+};
+
+let testEnv: RulesTestEnvironment;
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await testEnv?.cleanup();
+});
+
+const seed = (documents: Record<string, object>) => testEnv.withSecurityRulesDisabled(async (context) => {
+  const db = context.firestore();
+  await Promise.all(Object.entries(documents).map(([path, data]) => db.doc(path).set(data)));
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed(SEED);
+});
+
+/** Firestore as a signed-in user; new accounts have no profile yet. */
+const as = (uid: string) => testEnv.authenticatedContext(uid, { email: `${uid}@example.com` }).firestore();
+
+describe('users', () => {
+  it('lets a user change their own display name', async () => {
+    await assertSucceeds(as('childA').doc('users/childA').update({ displayName: 'Alex', updatedAt: now }));
+  });
+
+  it('stops a child changing their own role or approval status', async () => {
+    await assertFails(as('childA').doc('users/childA').update({ role: 'PARENT' }));
+    await assertFails(as('childA').doc('users/childA').update({ familyId: 'familyB' }));
+    await assertFails(as('pendingA').doc('users/pendingA').update({ role: 'CHILD', approvalStatus: 'APPROVED' }));
+  });
+
+  it('lets a parent read their own children only', async () => {
+    await assertSucceeds(as('parentA').doc('users/childA').get());
+    await assertSucceeds(as('parentA').doc('users/pendingA').get());
+    await assertFails(as('parentA').doc('users/childB').get());
+  });
+
+  it('lets a parent approve a child who registered with them, into their own family', async () => {
+    const approval = { role: 'CHILD', approvalStatus: 'APPROVED', approvedBy: 'parentA', approvedAt: now, updatedAt: now };
+    await assertFails(as('parentA').doc('users/pendingA').update({ ...approval, familyId: 'familyB' }));
+    await assertFails(as('parentB').doc('users/pendingA').update({ ...approval, familyId: 'familyB' }));
+    await assertSucceeds(as('parentA').doc('users/pendingA').update({ ...approval, familyId: 'familyA' }));
+  });
+});
+
+describe('families', () => {
+  it('lets a parent read their own family but not another', async () => {
+    await assertSucceeds(as('parentA').doc('families/familyA').get());
+    await assertFails(as('parentA').doc('families/familyB').get());
+  });
+
+  it('lets a parent change their own family settings only', async () => {
+    await assertSucceeds(as('parentA').doc('families/familyA').update({ settings: { timeZone: 'Europe/London' } }));
+    await assertFails(as('parentA').doc('families/familyB').update({ settings: { timeZone: 'Europe/London' } }));
+    await assertFails(as('childA').doc('families/familyA').update({ settings: { timeZone: 'Europe/London' } }));
+  });
+});
+
+describe('invite registration', () => {
+  /** The writes createUserProfile makes for a child registering with a code. */
+  const register = (uid: string, code: string, fields: object = {}) => {
+    const db = as(uid);
+    const batch = db.batch();
+    batch.set(db.doc(`users/${uid}`), profile(uid, {
+      role: 'PENDING_CHILD',
+      approvalStatus: 'PENDING',
+      parentUid: 'parentA',
+      familyId: 'familyA',
+      inviteCode: code,
+      ...fields
+    }));
+    batch.update(db.doc(`invites/${code}`), { usedBy: arrayUnion(uid) });
+    return { db, batch };
+  };
+
+  const autoApproved = { role: 'CHILD', approvalStatus: 'APPROVED', approvedBy: 'parentA', approvedAt: now };
+
+  it('registers a pending child with a usable code', async () => {
+    await assertSucceeds(register('newChild', 'OPEN01').batch.commit());
+  });
+
+  it.each(['REVOKD', 'EXPIRD', 'USEDUP'])('refuses invite %s', async (code) => {
+    await assertFails(register('newChild', code).batch.commit());
+  });
+
+  it('refuses a profile that claims a code without redeeming it', async () => {
+    const db = as('newChild');
+    await assertFails(db.doc('users/newChild').set(profile('newChild', {
+      role: 'PENDING_CHILD', approvalStatus: 'PENDING', parentUid: 'parentA', familyId: 'familyA', inviteCode: 'OPEN01'
+    })));
+  });
+
+  it('refuses redeeming a code without registering with it', async () => {
+    await assertFails(as('newChild').doc('invites/OPEN01').update({ usedBy: arrayUnion('newChild') }));
+  });
+
+  it('refuses a family other than the invite\'s', async () => {
+    await assertFails(register('newChild', 'OPEN01', { familyId: 'familyB', parentUid: 'parentB' }).batch.commit());
+  });
+
+  it('only approves at once when the invite says so', async () => {
+    await assertFails(register('newChild', 'OPEN01', autoApproved).batch.commit());
+    await assertSucceeds(register('newChild', 'AUTO01', autoApproved).batch.commit());
+  });
+
+  it('stops an existing user redeeming a code', async () => {
+    await assertFails(as('childB').doc('invites/OPEN01').update({ usedBy: arrayUnion('childB') }));
+  });
+
+  describe('adding yourself to childrenUids', () => {
+    it('works for a child the invite approves', async () => {
+      const { db, batch } = register('newChild', 'AUTO01', autoApproved);
+      batch.update(db.doc('families/familyA'), { childrenUids: arrayUnion('newChild') });
+      await assertSucceeds(batch.commit());
+    });
+
+    it('is refused for a child still waiting for approval', async () => {
+      const { db, batch } = register('newChild', 'OPEN01');
+      batch.update(db.doc('families/familyA'), { childrenUids: arrayUnion('newChild') });
+      await assertFails(batch.commit());
+    });
+
+    it('is refused when adding someone else', async () => {
+      const { db, batch } = register('newChild', 'AUTO01', autoApproved);
+      batch.update(db.doc('families/familyA'), { childrenUids: arrayUnion('newChild', 'intruder') });
+      await assertFails(batch.commit());
+    });
+
+    it('is refused for users who already have a profile', async () => {
+      await assertFails(as('childB').doc('families/familyA').update({ childrenUids: arrayUnion('childB') }));
+    });
+  });
+});
+
+describe('parent-created child accounts', () => {
+  const childAccount = (fields: object = {}) => ({
+    uid: 'kid1',
+    email: `kid1@${CHILD_ACCOUNT_EMAIL_DOMAIN}`,
+    displayName: 'Kid',
+    username: 'kid1',
+    role: 'CHILD',
+    filterLevel: 'MODERATE',
+    approvalStatus: 'APPROVED',
+    parentUid: 'parentA',
+    familyId: 'familyA',
+    approvedBy: 'parentA',
+    approvedAt: now,
+    createdAt: now,
+    updatedAt: now,
+    ...fields
+  });
+
+  /** Firestore as the new child sign-in, which saves its own profile. */
+  const asNewChild = () =>
+    testEnv.authenticatedContext('kid1', { email: `kid1@${CHILD_ACCOUNT_EMAIL_DOMAIN}` }).firestore();
+
+  /** The parent's half of createChildAccount: listing the new sign-in in the family. */
+  const listChild = async (parentUid = 'parentA', familyId = 'familyA') => {
+    const db = as(parentUid);
+    const batch = db.batch();
+    batch.update(db.doc(`families/${familyId}`), { childrenUids: arrayUnion('kid1') });
+    batch.update(db.doc(`users/${parentUid}`), { childrenUids: arrayUnion('kid1'), updatedAt: now });
+    await assertSucceeds(batch.commit());
+  };
+
+  it('lets a child sign-in the parent listed save its own profile', async () => {
+    await listChild();
+    await assertSucceeds(asNewChild().doc('users/kid1').set(childAccount()));
+  });
+
+  it('refuses the profile before the parent has listed the child', async () => {
+    await assertFails(asNewChild().doc('users/kid1').set(childAccount()));
+  });
+
+  it('refuses anyone else writing the child\'s profile, the parent included', async () => {
+    await listChild();
+    await assertFails(as('parentA').doc('users/kid1').set(childAccount()));
+    await assertFails(as('childA').doc('users/kid1').set(childAccount()));
+  });
+
+  it('refuses a child profile in another family', async () => {
+    await listChild();
+    await assertFails(asNewChild().doc('users/kid1').set(childAccount({ familyId: 'familyB' })));
+    await assertFails(asNewChild().doc('users/kid1').set(childAccount({ familyId: 'familyB', parentUid: 'parentB', approvedBy: 'parentB' })));
+  });
+
+  it('refuses anything but an approved child on the sign-in\'s reserved address', async () => {
+    await listChild();
+    await assertFails(asNewChild().doc('users/kid1').set(childAccount({ email: 'kid1@example.com' })));
+    await assertFails(asNewChild().doc('users/kid1').set(childAccount({ email: `other@${CHILD_ACCOUNT_EMAIL_DOMAIN}`, username: 'other' })));
+    await assertFails(asNewChild().doc('users/kid1').set(childAccount({ role: 'PARENT' })));
+    await assertFails(asNewChild().doc('users/kid1').set(childAccount({ isAdmin: true })));
+  });
+
+  it('refuses replacing an existing profile', async () => {
+    await listChild();
+    await seed({ 'users/kid1': profile('kid1', { role: 'PENDING_CHILD', approvalStatus: 'PENDING' }) });
+    await assertFails(asNewChild().doc('users/kid1').set(childAccount()));
+  });
+});
+
+describe('auditLog', () => {
+  const entry = (fields: object = {}) => ({
+    id: 'entry1',
+    actorUid: 'parentA',
+    actorEmail: 'parentA@example.com',
+    action: 'RULE_ADDED',
+    targetType: 'FAMILY',
+    targetId: 'familyA',
+    familyId: 'familyA',
+    before: null,
+    after: { 'settings.blockRules': { pattern: 'example.com' } },
+    createdAt: now,
+    ...fields
+  });
+
+  const record = (uid: string, fields: object = {}) => as(uid).doc('auditLog/entry1').set(entry({ actorUid: uid, ...fields }));
+
+  it('lets a parent record changes to their family and its children', async () => {
+    await assertSucceeds(record('parentA'));
+    await assertSucceeds(record('parentA', { action: 'CHILD_FILTER_CHANGED', targetType: 'USER', targetId: 'childA' }));
+    await assertSucceeds(record('parentA', { action: 'CHILD_REJECTED', targetType: 'USER', targetId: 'pendingA', reason: 'Not ours' }));
+  });
+
+  it('refuses actions and targets the app never writes', async () => {
+    await assertFails(record('parentA', { action: 'ROLE_GRANTED' }));
+    await assertFails(record('parentA', { targetType: 'CONFIG' }));
+    await assertFails(record('parentA', { action: 'RULE_ADDED', targetType: 'USER', targetId: 'childA' }));
+    await assertFails(record('parentA', { isAdmin: true }));
+  });
+
+  it('refuses targets outside the parent\'s family', async () => {
+    await assertFails(record('parentA', { targetId: 'familyB' }));
+    await assertFails(record('parentA', { action: 'USER_SUSPENDED', targetType: 'USER', targetId: 'childB' }));
+    await assertFails(record('parentA', { targetId: 'familyB', familyId: 'familyB' }));
+  });
+
+  it('refuses entries in someone else\'s name', async () => {
+    await assertFails(as('parentA').doc('auditLog/entry1').set(entry({ actorUid: 'parentB' })));
+    await assertFails(record('childA', { familyId: 'familyA' }));
+  });
+
+  it('leaves parent reviews to admins', async () => {
+    await seed({ 'users/admin': profile('admin', { role: 'SUPER_ADMIN', approvalStatus: 'APPROVED' }) });
+    const review = { action: 'PARENT_APPROVED', targetType: 'USER', targetId: 'parentA' };
+    await assertFails(record('parentA', review));
+    await assertSucceeds(record('admin', review));
+  });
+});
+
+describe('activity and alerts', () => {
+  const activityEvent = {
+    id: 'event1',
+    uid: 'childA',
+    familyId: 'familyA',
+    url: 'https://example.com/',
+    host: 'example.com',
+    timestamp: now,
+    decision: 'ALLOWED',
+    reason: null,
+    rule: null
+  };
+  const alert = {
+    id: 'alert1',
+    familyId: 'familyA',
+    childUid: 'childA',
+    childName: 'childA',
+    categories: ['adult'],
+    count: 3,
+    windowMinutes: 10,
+    firstAt: now - 60 * 1000,
+    lastAt: now,
+    activityIds: [],
+    hosts: [],
+    createdAt: now,
+    read: false
+  };
+
+  it('are Worker-only without the Demo Mode flag', async () => {
+    await assertFails(as('childA').doc('activity/event1').set(activityEvent));
+    await assertFails(as('childA').doc('alerts/alert1').set(alert));
+  });
+
+  it('stay Worker-only when the flag is off', async () => {
+    await seed({ 'config/demoMode': { enabled: false } });
+    await assertFails(as('childA').doc('activity/event1').set(activityEvent));
+    await assertFails(as('childA').doc('alerts/alert1').set(alert));
+  });
+
+  it('accept a child\'s own events in Demo Mode', async () => {
+    await seed({ 'config/demoMode': { enabled: true } });
+    await assertSucceeds(as('childA').doc('activity/event1').set(activityEvent));
+    await assertSucceeds(as('childA').doc('alerts/alert1').set(alert));
+    await assertFails(as('childB').doc('activity/event2').set({ ...activityEvent, id: 'event2' }));
+  });
+
+  it('let only the family\'s parent read them', async () => {
+    await seed({ 'activity/event1': activityEvent });
+    await assertSucceeds(as('parentA').doc('activity/event1').get());
+    await assertFails(as('parentB').doc('activity/event1').get());
+    await assertFails(as('childA').doc('activity/event1').get());
+  });
+
+  it('cannot be switched into Demo Mode from the client', async () => {
+    await assertFails(as('parentA').doc('config/demoMode').set({ enabled: true }));
+  });
+});
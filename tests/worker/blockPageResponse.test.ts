@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { blockPageResponse } from '../../worker.js';
+
+const refusal = (body: Record<string, unknown>, status = 403) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'X-Proxy-Error': String(body.error) }
+  });
+
+const formSubmission = new Request('https://worker.test/proxy/session/https/blocked.example/search?q=1', {
+  headers: { 'Sec-Fetch-Dest': 'iframe', 'Sec-Fetch-Mode': 'navigate' }
+});
+
+describe('blockPageResponse', () => {
+  it('serves an HTML page with the same status and error code', async () => {
+    const response = await blockPageResponse(formSubmission, refusal({ error: 'BLOCKED_DOMAIN', message: 'Blocked by a family rule.' }));
+    expect(response.status).toBe(403);
+    expect(response.headers.get('Content-Type')).toContain('text/html');
+    expect(response.headers.get('X-Proxy-Error')).toBe('BLOCKED_DOMAIN');
+  });
+
+  it('posts the refusal and the unproxied URL to the Dashboard', async () => {
+    const response = await blockPageResponse(
+      formSubmission,
+      refusal({ error: 'BLOCKED_CATEGORY', message: 'Blocked.', category: 'GAMBLING' })
+    );
+    const html = await response.text();
+    expect(html).toContain('window.parent.postMessage(');
+    expect(html).toContain('"type":"blocked"');
+    expect(html).toContain('"url":"https://blocked.example/search?q=1"');
+    expect(html).toContain('"error":{"error":"BLOCKED_CATEGORY","message":"Blocked.","category":"GAMBLING"}');
+    expect(html).toContain('"status":403');
+  });
+
+  it('escapes the message in the page and in the script', async () => {
+    const response = await blockPageResponse(
+      formSubmission,
+      refusal({ error: 'UPSTREAM_ERROR', message: '</script><img src=x onerror=alert(1)>' }, 502)
+    );
+    const html = await response.text();
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;/script&gt;&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('\\u003c/script>');
+  });
+});
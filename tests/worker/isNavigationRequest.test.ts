@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { isNavigationRequest } from '../../worker.js';
+
+const proxyRequest = (headers: Record<string, string>) =>
+  new Request('https://worker.test/proxy/session/https/example.com/', { headers });
+
+describe('isNavigationRequest', () => {
+  it('counts pages loaded in the Dashboard frame', () => {
+    expect(isNavigationRequest(proxyRequest({ 'Sec-Fetch-Dest': 'iframe', 'Sec-Fetch-Mode': 'navigate' }))).toBe(true);
+  });
+
+  it('counts pages opened in a new tab', () => {
+    expect(isNavigationRequest(proxyRequest({ 'Sec-Fetch-Dest': 'document', 'Sec-Fetch-Mode': 'navigate' }))).toBe(true);
+  });
+
+  it('counts any navigate-mode request, whatever the destination', () => {
+    expect(isNavigationRequest(proxyRequest({ 'Sec-Fetch-Mode': 'navigate' }))).toBe(true);
+    expect(isNavigationRequest(proxyRequest({ 'Sec-Fetch-Dest': 'iframe' }))).toBe(true);
+  });
+
+  it('leaves out assets and script fetches', () => {
+    expect(isNavigationRequest(proxyRequest({ 'Sec-Fetch-Dest': 'image', 'Sec-Fetch-Mode': 'no-cors' }))).toBe(false);
+    expect(isNavigationRequest(proxyRequest({ 'Sec-Fetch-Dest': 'empty', 'Sec-Fetch-Mode': 'cors' }))).toBe(false);
+    expect(isNavigationRequest(proxyRequest({}))).toBe(false);
+  });
+});
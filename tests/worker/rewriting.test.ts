@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { rewriteCssUrls, rewriteSrcset, toProxyUrl } from '../../worker.js';
+
+const PROXY = 'https://worker.test/proxy/session/';
+const context = { baseUrl: 'https://example.com/blog/post.html?page=2', proxyBase: PROXY };
+
+describe('toProxyUrl', () => {
+  it('routes absolute URLs through the proxy, keeping the query and fragment', () => {
+    expect(toProxyUrl('https://cdn.example.net/app.js?v=3#top', context)).toBe(`${PROXY}https/cdn.example.net/app.js?v=3#top`);
+    expect(toProxyUrl('http://example.org:8080/', context)).toBe(`${PROXY}http/example.org:8080/`);
+  });
+
+  it('resolves relative URLs against the page', () => {
+    expect(toProxyUrl('image.png', context)).toBe(`${PROXY}https/example.com/blog/image.png`);
+    expect(toProxyUrl('../about', context)).toBe(`${PROXY}https/example.com/about`);
+    expect(toProxyUrl('/search?q=cats', context)).toBe(`${PROXY}https/example.com/search?q=cats`);
+    expect(toProxyUrl('?page=3', context)).toBe(`${PROXY}https/example.com/blog/post.html?page=3`);
+    expect(toProxyUrl('  next.html  ', context)).toBe(`${PROXY}https/example.com/blog/next.html`);
+  });
+
+  it('keeps the page\'s scheme for protocol-relative URLs', () => {
+    expect(toProxyUrl('//static.example.net/style.css', context)).toBe(`${PROXY}https/static.example.net/style.css`);
+    expect(toProxyUrl('//static.example.net/style.css', { ...context, baseUrl: 'http://example.com/' }))
+      .toBe(`${PROXY}http/static.example.net/style.css`);
+  });
+
+  it.each([
+    'data:image/png;base64,iVBORw0KGgo=',
+    'javascript:alert(1)',
+    ' JavaScript:void(0)',
+    '#section',
+    'mailto:someone@example.com',
+    'tel:+441234567890',
+    'blob:https://example.com/1234',
+    'about:blank',
+    'ftp://example.com/file.txt',
+    ''
+  ])('leaves %j alone', (value) => {
+    expect(toProxyUrl(value, context)).toBeNull();
+  });
+});
+
+describe('rewriteSrcset', () => {
+  it('rewrites each candidate and keeps its descriptor', () => {
+    expect(rewriteSrcset('small.jpg 480w, /large.jpg 1080w', context))
+      .toBe(`${PROXY}https/example.com/blog/small.jpg 480w, ${PROXY}https/example.com/large.jpg 1080w`);
+    expect(rewriteSrcset('logo.png, logo@2x.png 2x', context))
+      .toBe(`${PROXY}https/example.com/blog/logo.png, ${PROXY}https/example.com/blog/logo@2x.png 2x`);
+  });
+
+  it('copes with extra whitespace and line breaks', () => {
+    expect(rewriteSrcset('  a.jpg   1x ,\n  //cdn.example.net/b.jpg 2x  ', context))
+      .toBe(`${PROXY}https/example.com/blog/a.jpg 1x, ${PROXY}https/cdn.example.net/b.jpg 2x`);
+  });
+
+  it('keeps commas that are part of a URL', () => {
+    expect(rewriteSrcset('https://img.example.net/w_100,h_50/pic.jpg 1x,https://img.example.net/w_200,h_100/pic.jpg 2x', context))
+      .toBe(`${PROXY}https/img.example.net/w_100,h_50/pic.jpg 1x, ${PROXY}https/img.example.net/w_200,h_100/pic.jpg 2x`);
+  });
+
+  it('leaves data: candidates as they are', () => {
+    expect(rewriteSrcset('data:image/gif;base64,R0lGOD 1x, hi.gif 2x', context))
+      .toBe(`data:image/gif;base64,R0lGOD 1x, ${PROXY}https/example.com/blog/hi.gif 2x`);
+  });
+});
+
+describe('rewriteCssUrls', () => {
+  it('rewrites url() with and without quotes', () => {
+    expect(rewriteCssUrls('a { background: url(bg.png) }', context))
+      .toBe(`a { background: url(${PROXY}https/example.com/blog/bg.png) }`);
+    expect(rewriteCssUrls('a { background: url("/img/bg.png") }', context))
+      .toBe(`a { background: url("${PROXY}https/example.com/img/bg.png") }`);
+    expect(rewriteCssUrls("@font-face { src: url( '//fonts.example.net/f.woff2' ) }", context))
+      .toBe(`@font-face { src: url('${PROXY}https/fonts.example.net/f.woff2') }`);
+  });
+
+  it('rewrites @import strings', () => {
+    expect(rewriteCssUrls('@import "theme.css";', context)).toBe(`@import "${PROXY}https/example.com/blog/theme.css";`);
+    expect(rewriteCssUrls("@import url('print.css') print;", context)).toBe(`@import url('${PROXY}https/example.com/blog/print.css') print;`);
+  });
+
+  it('leaves data: URLs and fragments alone', () => {
+    const css = 'a { background: url("data:image/svg+xml;utf8,<svg/>") } b { filter: url(#blur) }';
+    expect(rewriteCssUrls(css, context)).toBe(css);
+  });
+});
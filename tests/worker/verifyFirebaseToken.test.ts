@@ -0,0 +1,200 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { verifyFirebaseToken } from '../../worker.js';
+
+const PROJECT_ID = 'demo-family';
+
+interface TestKey {
+  kid: string;
+  privateKey: CryptoKey;
+  jwk: JsonWebKey & { kid: string };
+}
+
+async function generateKey(kid: string): Promise<TestKey> {
+  const pair = await crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify']
+  );
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  return { kid, privateKey: pair.privateKey, jwk: { ...jwk, kid } };
+}
+
+const base64Url = (data: string | Uint8Array) => Buffer.from(data).toString('base64url');
+
+async function signToken(key: TestKey, claims: object, header: object = {}) {
+  const encodedHeader = base64Url(JSON.stringify({ alg: 'RS256', kid: key.kid, typ: 'JWT', ...header }));
+  const encodedPayload = base64Url(JSON.stringify(claims));
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    key.privateKey,
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  );
+  return `${encodedHeader}.${encodedPayload}.${base64Url(new Uint8Array(signature))}`;
+}
+
+const validClaims = (overrides: object = {}) => {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: `https://securetoken.google.com/${PROJECT_ID}`,
+    aud: PROJECT_ID,
+    sub: 'child-uid',
+    email: 'child@example.com',
+    iat: now - 10,
+    auth_time: now - 60,
+    exp: now + 3600,
+    ...overrides
+  };
+};
+
+// The key cache is per endpoint, so a fresh URL per test starts with an empty cache
+let endpointCount = 0;
+const freshJwksUrl = () => `https://keys.test/jwks/${++endpointCount}`;
+
+function serveKeys(keys: TestKey[], maxAgeSeconds = 3600) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify({ keys: keys.map(key => key.jwk) }), {
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': `public, max-age=${maxAgeSeconds}` }
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('verifyFirebaseToken', () => {
+  let signingKey: TestKey;
+  let otherKey: TestKey;
+
+  beforeAll(async () => {
+    signingKey = await generateKey('key-1');
+    otherKey = await generateKey('key-2');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const verify = (token: string, jwksUrl = freshJwksUrl()) =>
+    verifyFirebaseToken(token, PROJECT_ID, { jwksUrl });
+
+  it('accepts a valid token', async () => {
+    serveKeys([signingKey]);
+    const token = await signToken(signingKey, validClaims());
+
+    await expect(verify(token)).resolves.toEqual({ valid: true, uid: 'child-uid', email: 'child@example.com' });
+  });
+
+  it('rejects a token signed by a different key', async () => {
+    serveKeys([signingKey, otherKey]);
+    const forged = await signToken(otherKey, validClaims(), { kid: signingKey.kid });
+
+    await expect(verify(forged)).resolves.toEqual({ error: 'Invalid signature' });
+  });
+
+  it('rejects a token whose payload was changed after signing', async () => {
+    serveKeys([signingKey]);
+    const [header, , signature] = (await signToken(signingKey, validClaims())).split('.');
+    const tampered = `${header}.${base64Url(JSON.stringify(validClaims({ sub: 'parent-uid' })))}.${signature}`;
+
+    await expect(verify(tampered)).resolves.toEqual({ error: 'Invalid signature' });
+  });
+
+  it.each(['HS256', 'none'])('rejects alg %s', async (alg) => {
+    const fetchMock = serveKeys([signingKey]);
+    const token = await signToken(signingKey, validClaims(), { alg });
+
+    await expect(verify(token)).resolves.toEqual({ error: `Invalid algorithm: ${alg}` });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown kid', async () => {
+    serveKeys([signingKey]);
+    const token = await signToken(signingKey, validClaims(), { kid: 'rotated-away' });
+
+    await expect(verify(token)).resolves.toEqual({ error: 'Unknown key ID: rotated-away' });
+  });
+
+  it('rejects an expired token', async () => {
+    serveKeys([signingKey]);
+    const now = Math.floor(Date.now() / 1000);
+    const token = await signToken(signingKey, validClaims({ iat: now - 7200, exp: now - 1 }));
+
+    await expect(verify(token)).resolves.toEqual({ error: 'Token expired' });
+  });
+
+  it('rejects an iat in the future beyond the clock skew', async () => {
+    serveKeys([signingKey]);
+    const token = await signToken(signingKey, validClaims({ iat: Math.floor(Date.now() / 1000) + 120 }));
+
+    await expect(verify(token)).resolves.toEqual({ error: 'Token issued in the future' });
+  });
+
+  it('accepts an iat within the clock skew', async () => {
+    serveKeys([signingKey]);
+    const token = await signToken(signingKey, validClaims({ iat: Math.floor(Date.now() / 1000) + 30 }));
+
+    await expect(verify(token)).resolves.toMatchObject({ valid: true });
+  });
+
+  it('rejects an auth_time in the future', async () => {
+    serveKeys([signingKey]);
+    const token = await signToken(signingKey, validClaims({ auth_time: Math.floor(Date.now() / 1000) + 120 }));
+
+    await expect(verify(token)).resolves.toEqual({ error: 'Invalid auth_time' });
+  });
+
+  it('rejects the wrong audience', async () => {
+    serveKeys([signingKey]);
+    const token = await signToken(signingKey, validClaims({ aud: 'another-project' }));
+
+    await expect(verify(token)).resolves.toEqual({ error: 'Invalid audience: another-project' });
+  });
+
+  it('rejects the wrong issuer', async () => {
+    serveKeys([signingKey]);
+    const token = await signToken(signingKey, validClaims({ iss: 'https://securetoken.google.com/another-project' }));
+
+    await expect(verify(token)).resolves.toEqual({ error: 'Invalid issuer: https://securetoken.google.com/another-project' });
+  });
+
+  it.each([
+    ['a header of null', `${base64Url('null')}.${base64Url('{}')}.x`],
+    ['a payload of null', `${base64Url('{"alg":"RS256"}')}.${base64Url('null')}.x`],
+    ['a header that is not JSON', 'not-json.x.y'],
+    ['too few segments', 'a.b']
+  ])('rejects %s without throwing', async (_label, token) => {
+    await expect(verify(token)).resolves.toEqual({ error: expect.stringMatching(/decode|format/) });
+  });
+
+  it('caches keys for the max-age the endpoint sends', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    const fetchMock = serveKeys([signingKey], 600);
+    const jwksUrl = freshJwksUrl();
+
+    await expect(verify(await signToken(signingKey, validClaims()), jwksUrl)).resolves.toMatchObject({ valid: true });
+    vi.setSystemTime(new Date('2026-03-01T12:09:00Z'));
+    await expect(verify(await signToken(signingKey, validClaims()), jwksUrl)).resolves.toMatchObject({ valid: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(new Date('2026-03-01T12:10:01Z'));
+    await expect(verify(await signToken(signingKey, validClaims()), jwksUrl)).resolves.toMatchObject({ valid: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('refetches for an unknown kid at most once a minute', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    const fetchMock = serveKeys([signingKey]);
+    const jwksUrl = freshJwksUrl();
+
+    await verify(await signToken(signingKey, validClaims()), jwksUrl);
+    const unknown = await signToken(otherKey, validClaims());
+    vi.setSystemTime(new Date('2026-03-01T12:00:30Z'));
+    await expect(verify(unknown, jwksUrl)).resolves.toEqual({ error: 'Unknown key ID: key-2' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // After a rotation the new key shows up on the next allowed refetch
+    serveKeys([signingKey, otherKey]);
+    vi.setSystemTime(new Date('2026-03-01T12:01:01Z'));
+    await expect(verify(await signToken(otherKey, validClaims()), jwksUrl)).resolves.toMatchObject({ valid: true });
+  });
+});
@@ -33,7 +33,14 @@ export interface UserProfile {
   email: string;
   displayName?: string;
   role: UserRole;
+  /** @deprecated Set at registration and never enforced; see filterLevelOverride */
   filterLevel: FilterLevel;
+  /** For children: overrides the family's filter level. Absent means the family default applies. */
+  filterLevelOverride?: FilterLevel;
+  /** For children: ID of a custom policy in Family.settings.filterPolicies; wins over any filter level */
+  filterPolicyId?: string;
+  /** For children: all browsing stopped by a parent */
+  pause?: BrowsingPause;
   /** @deprecated Use parentUid instead */
   parentEmail?: string;
 
@@ -51,11 +58,49 @@ export interface UserProfile {
   approvedAt?: number;
   /** If rejected, why */
   rejectedReason?: string;
+  /** For children: allowed browsing hours. Absent means no time restriction. */
+  schedule?: WeeklySchedule;
+  /** For children: daily browsing budget. Absent means no limit. */
+  dailyQuota?: DailyQuota;
+  /** For children: the invite code they registered with */
+  inviteCode?: string;
+  /** For children a parent created without an email address: their sign-in name */
+  username?: string;
   
   createdAt: number;
   updatedAt?: number;
 }
 
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/** "HH:MM" in 24-hour time; the end is exclusive and may be "24:00". */
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * Allowed browsing windows per weekday, in the family's time zone.
+ * A missing or empty day has no allowed hours. See policy/schedule.js.
+ */
+export type WeeklySchedule = Partial<Record<Weekday, TimeWindow[]>>;
+
+/** Minutes of browsing allowed per weekday (family time zone). A missing day is unlimited. */
+export type DailyQuota = Partial<Record<Weekday, number>>;
+
+/**
+ * Browsing time metered by the Worker from Dashboard heartbeats.
+ * Document ID: `${uid}_${date}`.
+ */
+export interface DailyUsage {
+  uid: string;
+  familyId: string;
+  /** "YYYY-MM-DD" in the family's time zone */
+  date: string;
+  seconds: number;
+  lastHeartbeatAt: number;
+}
+
 export interface ApprovalRequest {
   id: string;
   requesterId: string;
@@ -69,6 +114,105 @@ export interface ApprovalRequest {
   notes?: string;
 }
 
+/** Privileged actions recorded in the audit log. */
+export type AuditAction =
+  | 'PARENT_APPROVED'
+  | 'PARENT_REJECTED'
+  | 'CHILD_APPROVED'
+  | 'CHILD_REJECTED'
+  | 'USER_SUSPENDED'
+  | 'USER_UNSUSPENDED'
+  | 'FAMILY_SETTINGS_CHANGED'
+  | 'RULE_ADDED'
+  | 'RULE_REMOVED'
+  | 'POLICY_SAVED'
+  | 'POLICY_DELETED'
+  | 'CHILD_FILTER_CHANGED'
+  | 'SCHEDULE_CHANGED'
+  | 'QUOTA_CHANGED'
+  | 'PAUSE_CHANGED'
+  | 'SITE_REQUEST_APPROVED'
+  | 'SITE_REQUEST_DENIED'
+  | 'INVITE_CREATED'
+  | 'INVITE_REVOKED'
+  | 'CHILD_ACCOUNT_CREATED'
+  | 'ALERT_SETTINGS_CHANGED';
+
+/**
+ * One privileged change, written in the same batch or transaction as the change itself.
+ * Entries are append-only.
+ */
+export interface AuditLogEntry {
+  id: string;
+  actorUid: string;
+  actorEmail: string;
+  action: AuditAction;
+  targetType: 'USER' | 'FAMILY' | 'ACCESS_REQUEST' | 'INVITE';
+  targetId: string;
+  /** Display name or email of a user target, for reading the log without lookups */
+  targetName?: string;
+  /** Family the change belongs to; parents see their family's entries */
+  familyId?: string;
+  /** Changed fields before and after, keyed by field path; null when nothing existed */
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason?: string;
+  createdAt: number;
+}
+
+/**
+ * A parent-defined website rule.
+ * Patterns: "example.com" (exact host), "*.example.com" (host and subdomains),
+ * "example.com/path" (path prefix). See policy/domainRules.js.
+ */
+export interface DomainRule {
+  pattern: string;
+  /** UID of the parent who added the rule */
+  createdBy: string;
+  createdAt: number;
+  /** Temporary rules stop applying at this time */
+  expiresAt?: number;
+  /** Rules granted to one child apply only to them */
+  forUid?: string;
+}
+
+/**
+ * "Pause internet" set by a parent on a child or the whole family. See policy/pause.js.
+ */
+export interface BrowsingPause {
+  /** UID of the parent who paused browsing */
+  pausedBy: string;
+  pausedAt: number;
+  /** Browsing resumes by itself at this time; absent means until a parent resumes it */
+  until?: number;
+}
+
+/** How strongly search engines and YouTube are forced into safe mode. See policy/safeSearch.js. */
+export type SafeSearchMode = 'STRICT' | 'MODERATE' | 'OFF';
+
+/**
+ * A parent-defined filter policy such as "Little ones" or "Teen school nights".
+ * The built-in FilterLevel values are presets with the same fields; see policy/filterPolicies.js.
+ */
+export interface FilterPolicy {
+  id: string;
+  name: string;
+  /** Category keys from policy/categories.js */
+  blockedCategories: string[];
+  safeSearch: SafeSearchMode;
+  /** Remove scripts and inline event handlers from proxied pages */
+  stripScripts: boolean;
+  /** Added to the family's allow rules for children on this policy */
+  allowRules: DomainRule[];
+  /** Added to the family's block rules; still win over allow rules */
+  blockRules: DomainRule[];
+  /** The preset this policy was cloned from */
+  basedOn?: FilterLevel;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface Family {
   id: string;
   parentUid: string;
@@ -76,9 +220,127 @@ export interface Family {
   createdAt: number;
   settings?: {
     filterLevel: FilterLevel;
+    /** Always allowed, regardless of filter level */
+    allowRules?: DomainRule[];
+    /** Always blocked; wins over allow rules */
+    blockRules?: DomainRule[];
+    /** IANA time zone used for children's schedules, e.g. "Europe/London" */
+    timeZone?: string;
+    /** Custom filter policies by ID */
+    filterPolicies?: Record<string, FilterPolicy>;
+    /** Stops browsing for every child in the family */
+    pause?: BrowsingPause;
+    /** When repeated blocked attempts alert the parent; defaults in policy/alerts.js */
+    alertSettings?: AlertSettings;
   };
 }
 
+/**
+ * A code a child registers with to join a family, stored in `invites`.
+ * The code is also the document ID, so two invites can never share one.
+ */
+export interface FamilyInvite {
+  code: string;
+  familyId: string;
+  /** The family's parent; children who register with the code are linked to them */
+  parentUid: string;
+  createdAt: number;
+  expiresAt: number;
+  /** How many children can register with the code */
+  maxUses: number;
+  /** UIDs of children who registered with it */
+  usedBy: string[];
+  /** Approve children as soon as they register, instead of waiting for the parent */
+  autoApprove: boolean;
+  /** Set when a parent revokes the code */
+  revokedAt?: number;
+}
+
+/**
+ * One top-level navigation through the proxy, written by the Worker.
+ * Expires after 30 days (Firestore TTL on expiresAt).
+ */
+export interface ActivityEvent {
+  id: string;
+  uid: string;
+  familyId: string;
+  url: string;
+  host: string;
+  timestamp: number;
+  decision: 'ALLOWED' | 'BLOCKED';
+  /** Why a navigation was blocked, e.g. BLOCKED_CATEGORY, SCHEDULE, QUOTA */
+  reason: string | null;
+  /** Matched allow/block pattern, or "category:<name>" */
+  rule: string | null;
+}
+
+/** Which blocked attempts raise a FamilyAlert. */
+export interface AlertSettings {
+  enabled: boolean;
+  /** Category keys from policy/categories.js */
+  categories: string[];
+  /** Blocked attempts needed to raise an alert... */
+  threshold: number;
+  /** ...within this many minutes */
+  windowMinutes: number;
+}
+
+/**
+ * Raised by the Worker when a child keeps hitting blocked sites in watched categories.
+ * Expires after 30 days (Firestore TTL on expiresAt).
+ */
+export interface FamilyAlert {
+  id: string;
+  familyId: string;
+  childUid: string;
+  childName: string;
+  /** Categories of the blocked attempts */
+  categories: string[];
+  count: number;
+  windowMinutes: number;
+  firstAt: number;
+  lastAt: number;
+  /** The blocked attempts in the activity log */
+  activityIds: string[];
+  /** Hosts the child tried to open */
+  hosts: string[];
+  createdAt: number;
+  read: boolean;
+  readAt?: number;
+}
+
+export type AccessRequestStatus = 'PENDING' | 'APPROVED' | 'DENIED';
+
+/** How long an approved access request unblocks the site */
+export type AccessGrant = 'FIFTEEN_MINUTES' | 'TODAY' | 'PERMANENT';
+
+/**
+ * A child's request to unblock a site, answered by a parent.
+ * Approval adds an allow rule (temporary and child-only, or permanent for the family).
+ */
+export interface AccessRequest {
+  id: string;
+  familyId: string;
+  childUid: string;
+  childName: string;
+  url: string;
+  /** Normalized pattern that approval adds to the allowlist */
+  pattern: string;
+  /** The child's explanation */
+  reason: string;
+  /** Why the site was blocked, e.g. "BLOCKED_CATEGORY" */
+  blockReason?: string;
+  status: AccessRequestStatus;
+  createdAt: number;
+  decidedBy?: string;
+  decidedAt?: number;
+  grant?: AccessGrant;
+  /** For temporary grants: when access ends */
+  expiresAt?: number;
+  /** Parent's note, e.g. when denying */
+  parentNote?: string;
+}
+
 export interface ProxyRequest {
   url: string;
   timestamp: number;
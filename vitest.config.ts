@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the Worker and the shared policy modules. The Firestore rules
+// tests need the emulator and have their own config (vitest.rules.config.ts).
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    exclude: ['tests/rules/**']
+  }
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Firestore security rules tests. Run through `npm run test:rules`, which starts the
+// Firestore emulator and sets FIRESTORE_EMULATOR_HOST for the duration of the run.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/rules/**/*.test.ts'],
+    // One emulator, shared state: run the files one after another
+    fileParallelism: false
+  }
+});
@@ -2,166 +2,1693 @@
  * OpenFamilySafe Proxy Worker
  * 
  * This worker acts as the secure tunnel.
- * 1. Checks for a valid Firebase ID Token (Authorization Header).
- * 2. Fetches the target URL.
- * 3. Rewrites relative URLs (src, href) to absolute URLs so assets load.
- * 4. Returns the content with CORS headers.
+ * 1. Checks for a valid, Google-signed Firebase ID Token (Authorization Header).
+ * 2. Loads the caller's profile and family settings from Firestore and enforces
+ *    approval status, family rules and category filtering server-side
+ *    (client headers are ignored).
+ * 3. Fetches the target URL.
+ * 4. Rewrites every link and asset URL (HTML attributes, srcset, CSS url())
+ *    to point back at this worker, so follow-on requests get the same checks.
+ *    Those requests authenticate with a signed proxy session in the path:
+ *    /proxy/<session>/<scheme>/<host>/<path>?<query>
+ * 5. Returns the content with CORS headers.
  */
 
+import { applySafeSearch } from './policy/safeSearch.js';
+import { getLocalTime } from './policy/schedule.js';
+import { createDashboardBridge, createBlockNotice } from './policy/dashboardBridge.js';
+import { resolveFilterPolicy } from './policy/filterPolicies.js';
+import { resolveAlertSettings, isWatchedCategory, trackBlockedAttempt } from './policy/alerts.js';
+import {
+  MAX_REDIRECTS,
+  HEARTBEAT_SECONDS,
+  ACTIVITY_RETENTION_DAYS,
+  getFamilyTimeZone,
+  getDailyLimitSeconds,
+  shouldCreditScreenTime,
+  evaluateCallerAccess,
+  evaluateTargetPolicy,
+  getAlertCategory
+} from './policy/proxyAccess.js';
+
 export default {
   async fetch(request, env, ctx) {
-    const corsHeaders = {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, HEAD, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Filter-Level",
-    };
+    const response = await handleRequest(request, env, ctx);
+    // A refused page in the Dashboard frame (or a new tab) would otherwise show the raw JSON
+    if (response.headers.has("X-Proxy-Error") && isProxiedNavigation(request)) {
+      return blockPageResponse(request, response);
+    }
+    return response;
+  },
+};
+
+/**
+ * Authenticate, check and proxy one request. Refusals are JSON error responses.
+ *
+ * @param {Request} request
+ * @param {object} env
+ * @param {ExecutionContext} ctx
+ * @returns {Promise<Response>}
+ */
+async function handleRequest(request, env, ctx) {
+  const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, HEAD, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  };
+
+  if (request.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(request.url);
+  const projectId = env.FIREBASE_PROJECT_ID;
+
+  if (!projectId || !env.PROXY_SESSION_SECRET) {
+     console.error("FIREBASE_PROJECT_ID or PROXY_SESSION_SECRET not set in environment variables");
+     return errorResponse('CONFIGURATION_ERROR', 500, "The proxy is not configured.", corsHeaders);
+  }
+
+  // Screen-time heartbeats from the Dashboard (no target URL involved)
+  if (url.pathname === HEARTBEAT_PATH) {
+    return handleHeartbeat(request, env, corsHeaders);
+  }
+
+  // --- SECURITY CHECK ---
+  // Two entry points: the Dashboard calls "?url=" with a Firebase ID token, and
+  // rewritten links/assets call "/proxy/<session>/..." with a signed proxy session.
+  let targetUrl;
+  let uid;
+  let session;
+  // Dashboard loads and pages opened from proxied links, in the frame or a new tab, count as navigations; assets do not
+  let isNavigation = true;
 
-    if (request.method === "OPTIONS") {
-      return new Response(null, { headers: corsHeaders });
+  if (url.pathname.startsWith(PROXY_PATH_PREFIX)) {
+    const proxyPath = parseProxyPath(url);
+    if (!proxyPath) {
+      return errorResponse('INVALID_REQUEST', 400, "Invalid proxy path.", corsHeaders);
     }
 
-    const url = new URL(request.url);
-    const targetUrl = url.searchParams.get("url");
+    const sessionCheck = await verifyProxySession(proxyPath.session, env.PROXY_SESSION_SECRET);
+    if (sessionCheck.error) {
+      return errorResponse('UNAUTHORIZED', 401, sessionCheck.error, corsHeaders);
+    }
+
+    targetUrl = proxyPath.targetUrl;
+    uid = sessionCheck.uid;
+    session = proxyPath.session;
+    isNavigation = isNavigationRequest(request);
+  } else {
+    targetUrl = url.searchParams.get("url");
 
     if (!targetUrl) {
-      return new Response("Missing 'url' query parameter.", { status: 400, headers: corsHeaders });
+      return errorResponse('INVALID_REQUEST', 400, "Missing 'url' query parameter.", corsHeaders);
     }
 
-    // --- SECURITY CHECK ---
     const authHeader = request.headers.get("Authorization");
     if (!authHeader) {
-        return new Response("Unauthorized: Missing Authorization header.", { status: 401, headers: corsHeaders });
-    } 
-
-    const token = authHeader.replace('Bearer ', '');
-    const projectId = env.FIREBASE_PROJECT_ID;
-
-    if (!projectId) {
-       console.error("FIREBASE_PROJECT_ID not set in environment variables");
-       return new Response("Server Configuration Error", { status: 500, headers: corsHeaders });
+        return errorResponse('UNAUTHORIZED', 401, "Missing Authorization header.", corsHeaders);
     }
 
+    const token = authHeader.replace('Bearer ', '');
     const verification = await verifyFirebaseToken(token, projectId);
 
     if (verification.error) {
         console.warn(`Token verification failed: ${verification.error}`);
-        return new Response(`Unauthorized: ${verification.error}`, { status: 401, headers: corsHeaders });
-    }
-
-    // --- FILTER LEVEL CHECK ---
-    // Extract X-Filter-Level from the request to potential use in content filtering logic
-    const filterLevel = request.headers.get("X-Filter-Level") || "strict";
-    // For now, we just pass valid requests through, but valid authentication is enforced.
-    
-    try {
-      const targetUrlObj = new URL(targetUrl);
-      
-      const newRequest = new Request(targetUrl, {
-        method: request.method,
-        headers: {
-          "User-Agent": "OpenFamilySafe/1.0",
-          "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8"
+        return errorResponse('UNAUTHORIZED', 401, verification.error, corsHeaders);
+    }
+
+    uid = verification.uid;
+    session = await createProxySession(uid, env.PROXY_SESSION_SECRET);
+  }
+
+  // --- ACCOUNT CHECK ---
+  // Approval status and filter level come from Firestore, never from the client.
+  let caller;
+  try {
+    caller = await getCallerContext(uid, env);
+  } catch (e) {
+    console.error(`Failed to load caller context: ${e.message}`);
+    return errorResponse('SERVICE_UNAVAILABLE', 503, "Unable to load account settings.", corsHeaders);
+  }
+
+  const access = checkProxyAccess(caller.profile);
+  if (!access.allowed) {
+    return errorResponse(access.code, 403, access.reason, corsHeaders);
+  }
+
+  // --- ACTIVITY LOG ---
+  // One event per navigation, written after the response is sent.
+  // Category blocks also count towards the family's parent alerts.
+  const logNavigation = (pageUrl, decision, reason, rule) => {
+    if (!isNavigation) return;
+    ctx.waitUntil(
+      recordActivity(env, caller, { url: pageUrl, decision, reason, rule })
+        .then(activityId => {
+          const category = getAlertCategory(reason, rule);
+          return category ? recordBlockedAttempt(env, caller, { activityId, url: pageUrl, category }) : null;
+        })
+        .catch(e => console.error(`Failed to record activity: ${e.message}`))
+    );
+  };
+
+  // --- PAUSE, ALLOWED HOURS, DAILY QUOTA ---
+  // In that order (policy/proxyAccess.js). Schedules use the family time zone; the quota is
+  // metered from Dashboard heartbeats (and top-level /proxy/ pages, below).
+  let accessDenial;
+  try {
+    accessDenial = await evaluateCallerAccess(caller, () => getQuotaStatus(caller, env));
+  } catch (e) {
+    console.error(`Failed to load screen-time usage: ${e.message}`);
+    return errorResponse('SERVICE_UNAVAILABLE', 503, "Unable to load screen-time usage.", corsHeaders);
+  }
+  if (accessDenial) {
+    logNavigation(targetUrl, 'BLOCKED', accessDenial.code);
+    return errorResponse(accessDenial.code, 403, accessDenial.message, corsHeaders, accessDenial.details);
+  }
+
+  // Documents loaded straight from a "/proxy/" link (a new tab, say) are outside the
+  // Dashboard and send no heartbeats, so each one is credited like a heartbeat instead.
+  if (url.pathname.startsWith(PROXY_PATH_PREFIX) && request.headers.get("Sec-Fetch-Dest") === "document") {
+    ctx.waitUntil(
+      getQuotaStatus(caller, env)
+        .then(status => creditScreenTime(caller, env, status))
+        .catch(e => console.error(`Failed to credit screen time: ${e.message}`))
+    );
+  }
+
+  // --- TARGET VALIDATION (SSRF) ---
+  // Only public http(s) hosts on ports 80/443; re-checked on every redirect hop below.
+  const targetCheck = await validateTarget(targetUrl);
+  if (targetCheck.error) {
+    return targetErrorResponse(targetCheck, corsHeaders);
+  }
+  const targetUrlObj = targetCheck.url;
+
+  // --- FAMILY RULES & FILTER POLICY ---
+  // Re-applied to every redirect hop below, so an allowed page cannot bounce to a blocked one.
+  // The child's custom policy, else the preset for their filter level (policy/filterPolicies.js)
+  const filterPolicy = resolveFilterPolicy(caller.profile, caller.family).policy;
+  let policy = checkTargetPolicy(caller, filterPolicy, targetUrlObj, corsHeaders);
+  if (policy.response) {
+    logNavigation(targetUrlObj.href, 'BLOCKED', policy.reason, policy.rule);
+    return policy.response;
+  }
+
+  try {
+    const forwardBody = !["GET", "HEAD"].includes(request.method);
+    const upstreamHeaders = {
+      "User-Agent": "OpenFamilySafe/1.0",
+      "Accept": request.headers.get("Accept") || "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8"
+    };
+    if (forwardBody && request.headers.get("Content-Type")) {
+      upstreamHeaders["Content-Type"] = request.headers.get("Content-Type");
+    }
+
+    // Buffered so the body can be replayed on 307/308 redirects
+    const requestBody = forwardBody ? await request.arrayBuffer() : undefined;
+
+    // --- UPSTREAM FETCH ---
+    // Redirects are followed manually so every hop is validated and policy-checked before it is fetched.
+    let currentUrl = targetUrlObj;
+    let method = request.method;
+    let body = requestBody;
+
+    // SafeSearch / Restricted Mode is forced on each hop (policy/safeSearch.js).
+    // The timeout only covers waiting for the response headers, so long downloads can still stream.
+    const fetchUpstream = async (target) => {
+      const safeSearch = applySafeSearch(filterPolicy.safeSearch, target);
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+      try {
+        return await fetch(safeSearch.url.href, {
+          method,
+          headers: { ...upstreamHeaders, ...safeSearch.headers },
+          body,
+          redirect: "manual",
+          signal: controller.signal
+        });
+      } catch (e) {
+        if (controller.signal.aborted) {
+          const timeout = new Error(`${target.hostname} took too long to respond.`);
+          timeout.name = 'TimeoutError';
+          throw timeout;
         }
-      });
-
-      const response = await fetch(newRequest);
-
-      // --- HTML REWRITING ---
-      // This uses Cloudflare's HTMLRewriter to fix links on the fly.
-      // e.g. <img src="/logo.png"> becomes <img src="https://target.com/logo.png">
-      // This helps the React frontend display images correctly without complex client-side logic.
-      
-      const contentType = response.headers.get("content-type");
-      let newResponse = response;
-
-      if (contentType && contentType.includes("text/html")) {
-        newResponse = new HTMLRewriter()
-          .on("a", new AttributeRewriter("href", targetUrlObj))
-          .on("img", new AttributeRewriter("src", targetUrlObj))
-          .on("link", new AttributeRewriter("href", targetUrlObj))
-          .on("script", new AttributeRewriter("src", targetUrlObj))
-          .transform(response);
+        throw e;
+      } finally {
+        clearTimeout(timer);
       }
+    };
+
+    let response = await fetchUpstream(currentUrl);
 
-      // Recreate response to add CORS headers
-      const finalResponse = new Response(newResponse.body, newResponse);
-      Object.keys(corsHeaders).forEach(key => {
-        finalResponse.headers.set(key, corsHeaders[key]);
-      });
+    for (let hop = 0; REDIRECT_STATUSES.includes(response.status); hop++) {
+      const location = response.headers.get("Location");
+      if (!location) break;
 
-      return finalResponse;
+      if (hop >= MAX_REDIRECTS) {
+        return targetErrorResponse(
+          { error: 'TOO_MANY_REDIRECTS', status: 502, message: `Gave up after ${MAX_REDIRECTS} redirects.` },
+          corsHeaders
+        );
+      }
+
+      const hopCheck = await validateTarget(new URL(location, currentUrl).href);
+      if (hopCheck.error) {
+        return targetErrorResponse(hopCheck, corsHeaders);
+      }
+
+      policy = checkTargetPolicy(caller, filterPolicy, hopCheck.url, corsHeaders);
+      if (policy.response) {
+        logNavigation(hopCheck.url.href, 'BLOCKED', policy.reason, policy.rule);
+        return policy.response;
+      }
+
+      // 303, and 301/302 after a POST, switch to GET like browsers do
+      if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === "POST")) {
+        method = "GET";
+        body = undefined;
+        delete upstreamHeaders["Content-Type"];
+      }
 
-    } catch (e) {
-      return new Response(`Proxy Error: ${e.message}`, { status: 500, headers: corsHeaders });
+      currentUrl = hopCheck.url;
+      response = await fetchUpstream(currentUrl);
     }
-  },
+
+    logNavigation(currentUrl.href, 'ALLOWED', null, policy.rule);
+
+    // --- URL REWRITING ---
+    // Every URL the page can load is pointed back at this worker, e.g.
+    // <img src="/logo.png"> becomes <img src="https://worker/proxy/<session>/https/target.com/logo.png">
+    // Relative URLs resolve against the final URL in case the origin redirected.
+    const rewriteContext = {
+      baseUrl: currentUrl.href,
+      proxyBase: `${url.origin}${PROXY_PATH_PREFIX}${session}/`
+    };
+
+    const contentType = response.headers.get("content-type") || "";
+    let newResponse = response;
+
+    if (contentType.includes("text/html")) {
+      newResponse = createPageRewriter(rewriteContext, { stripScripts: filterPolicy.stripScripts }).transform(response);
+    } else if (contentType.includes("text/css")) {
+      const css = await response.text();
+      newResponse = new Response(rewriteCssUrls(css, rewriteContext), response);
+    }
+
+    // Recreate response to add CORS headers
+    const finalResponse = new Response(newResponse.body, newResponse);
+    Object.keys(corsHeaders).forEach(key => {
+      finalResponse.headers.set(key, corsHeaders[key]);
+    });
+    // Lets the Dashboard show where the page actually ended up after redirects
+    finalResponse.headers.set("X-Proxy-Final-Url", currentUrl.href);
+    finalResponse.headers.set("Access-Control-Expose-Headers", "X-Proxy-Final-Url");
+    // The origin's CSP would block the rewritten (worker-hosted) URLs
+    finalResponse.headers.delete("Content-Security-Policy");
+    finalResponse.headers.delete("Content-Security-Policy-Report-Only");
+  // Only the Worker's own refusals may carry it
+  finalResponse.headers.delete("X-Proxy-Error");
+
+    return finalResponse;
+
+  } catch (e) {
+    if (e.name === 'TimeoutError') {
+      return errorResponse('TIMEOUT', 504, e.message, corsHeaders);
+    }
+    console.error(`Upstream fetch failed: ${e.message}`);
+    return errorResponse('UPSTREAM_ERROR', 502, `Could not load ${targetUrlObj.hostname}: ${e.message}`, corsHeaders);
+  }
+}
+
+// ==========================================
+// Error Responses
+// ==========================================
+
+// How long a site gets to start answering each request (per redirect hop) before TIMEOUT
+const UPSTREAM_TIMEOUT_MS = 20 * 1000;
+
+/**
+ * Build a JSON error response: { "error": CODE, "message": "...", ...details }.
+ * The X-Proxy-Error header lets the Dashboard tell the Worker's own refusals apart
+ * from error pages returned by the target site.
+ *
+ * @param {string} code - e.g. BLOCKED_DOMAIN, BLOCKED_CATEGORY, SCHEDULE, QUOTA, SUSPENDED, UPSTREAM_ERROR, TIMEOUT
+ * @param {number} status - HTTP status
+ * @param {string} message - Human-readable explanation
+ * @param {object} corsHeaders
+ * @param {object} [details] - Extra fields for the client, e.g. category or nextStart
+ * @returns {Response}
+ */
+function errorResponse(code, status, message, corsHeaders, details = {}) {
+  return new Response(JSON.stringify({ error: code, message, ...details }), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      "X-Proxy-Error": code,
+      "Access-Control-Expose-Headers": "X-Proxy-Error"
+    }
+  });
+}
+
+/**
+ * Serve a refused /proxy/ navigation as a page instead of JSON. Inside the Dashboard
+ * frame (a form submission or script redirect; link clicks already go through the
+ * Dashboard) the page hands the refusal to the Dashboard, which shows its block page.
+ * Opened in a new tab, it shows the message.
+ *
+ * @param {Request} request - The refused navigation
+ * @param {Response} response - From errorResponse
+ * @returns {Promise<Response>}
+ */
+export async function blockPageResponse(request, response) {
+  const body = await response.json();
+  const proxyPath = parseProxyPath(new URL(request.url));
+  const notice = createBlockNotice(proxyPath ? proxyPath.targetUrl : null, body, response.status);
+  const message = String(body.message).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const headers = new Headers(response.headers);
+  headers.set("Content-Type", "text/html; charset=utf-8");
+  return new Response(
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Page blocked</title><script>${notice}</script></head>` +
+    `<body style="font-family: sans-serif; margin: 2rem"><h1>This page can't be shown</h1><p>${message}</p></body></html>`,
+    { status: response.status, headers }
+  );
+}
+
+// ==========================================
+// Target Policy (Family Rules & Categories)
+// ==========================================
+
+/**
+ * Apply the family's and the policy's rules and categories to a URL (policy/proxyAccess.js).
+ *
+ * @param {{profile: object, family: object | null}} caller - From getCallerContext
+ * @param {object} filterPolicy - Effective filter policy (policy/filterPolicies.js)
+ * @param {URL} targetUrl - The URL about to be fetched
+ * @param {object} corsHeaders
+ * @returns {{response: Response | null, reason?: string, rule: string | null}}
+ *   response is a 403 if the URL is blocked; rule is the matched pattern or category, for the activity log
+ */
+function checkTargetPolicy(caller, filterPolicy, targetUrl, corsHeaders) {
+  const { denial, rule } = evaluateTargetPolicy(caller, filterPolicy, targetUrl);
+  if (!denial) {
+    return { response: null, rule };
+  }
+  return {
+    response: errorResponse(denial.code, 403, denial.message, corsHeaders, denial.details),
+    reason: denial.code,
+    rule
+  };
+}
+
+// ==========================================
+// Screen-Time Quotas
+// ==========================================
+
+const HEARTBEAT_PATH = "/heartbeat";
+
+// Usage is cached like caller context; heartbeats update the cached value directly
+const USAGE_CACHE_TTL_MS = 15 * 1000;
+
+const usageCache = new Map();
+
+/**
+ * Work out today's budget and usage for a caller, in the family's time zone.
+ *
+ * @param {{profile: object, family: object | null}} caller
+ * @param {object} env - Worker environment
+ * @returns {Promise<{date: string, limitSeconds: number | null, usedSeconds: number, remainingSeconds: number | null, lastHeartbeatAt: number}>}
+ *   limitSeconds and remainingSeconds are null when there is no limit today
+ */
+async function getQuotaStatus(caller, env) {
+  const { date, weekday } = getLocalTime(new Date(), getFamilyTimeZone(caller.family));
+  const limitSeconds = getDailyLimitSeconds(caller.profile, weekday);
+
+  const usage = await getDailyUsage(env, caller.profile.uid, date);
+  return {
+    date,
+    limitSeconds,
+    usedSeconds: usage.seconds,
+    remainingSeconds: limitSeconds === null ? null : Math.max(0, limitSeconds - usage.seconds),
+    lastHeartbeatAt: usage.lastHeartbeatAt
+  };
+}
+
+/**
+ * @param {object} env - Worker environment
+ * @param {string} uid
+ * @param {string} date - "YYYY-MM-DD" in the family's time zone
+ * @returns {Promise<{seconds: number, lastHeartbeatAt: number}>}
+ */
+async function getDailyUsage(env, uid, date) {
+  const key = `${uid}_${date}`;
+  const cached = usageCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.usage;
+  }
+
+  const document = await getFirestoreDocument(env, `usage/${key}`);
+  const usage = {
+    seconds: (document && document.seconds) || 0,
+    lastHeartbeatAt: (document && document.lastHeartbeatAt) || 0
+  };
+  usageCache.set(key, { usage, expiresAt: Date.now() + USAGE_CACHE_TTL_MS });
+  return usage;
+}
+
+/**
+ * Add HEARTBEAT_SECONDS to a child's usage for today. Nothing is credited to parents,
+ * while paused, or within MIN_HEARTBEAT_GAP_MS of the last credit.
+ *
+ * @param {{profile: object, family: object | null}} caller
+ * @param {object} env - Worker environment
+ * @param {object} status - From getQuotaStatus(); updated in place when time is credited
+ * @returns {Promise<void>}
+ */
+async function creditScreenTime(caller, env, status) {
+  const now = Date.now();
+  if (!shouldCreditScreenTime(caller, status.lastHeartbeatAt, now)) {
+    return;
+  }
+
+  const uid = caller.profile.uid;
+  await commitFirestoreWrites(env, [{
+    update: {
+      name: firestoreDocumentName(env, `usage/${uid}_${status.date}`),
+      fields: encodeFirestoreFields({
+        uid,
+        familyId: caller.profile.familyId || '',
+        date: status.date,
+        lastHeartbeatAt: now
+      })
+    },
+    updateMask: { fieldPaths: ['uid', 'familyId', 'date', 'lastHeartbeatAt'] },
+    updateTransforms: [{ fieldPath: 'seconds', increment: { integerValue: String(HEARTBEAT_SECONDS) } }]
+  }]);
+
+  status.usedSeconds += HEARTBEAT_SECONDS;
+  status.lastHeartbeatAt = now;
+  if (status.limitSeconds !== null) {
+    status.remainingSeconds = Math.max(0, status.limitSeconds - status.usedSeconds);
+  }
+  usageCache.set(`${uid}_${status.date}`, {
+    usage: { seconds: status.usedSeconds, lastHeartbeatAt: now },
+    expiresAt: now + USAGE_CACHE_TTL_MS
+  });
+}
+
+/**
+ * POST /heartbeat with the Firebase ID token and { "active": boolean }.
+ * Active heartbeats from children add HEARTBEAT_SECONDS to today's usage;
+ * every heartbeat returns the current quota status.
+ *
+ * @param {Request} request
+ * @param {object} env - Worker environment
+ * @param {object} corsHeaders
+ * @returns {Promise<Response>}
+ */
+async function handleHeartbeat(request, env, corsHeaders) {
+  if (request.method !== "POST") {
+    return errorResponse('METHOD_NOT_ALLOWED', 405, "Method Not Allowed", corsHeaders);
+  }
+
+  const authHeader = request.headers.get("Authorization");
+  if (!authHeader) {
+    return errorResponse('UNAUTHORIZED', 401, "Missing Authorization header.", corsHeaders);
+  }
+
+  const verification = await verifyFirebaseToken(authHeader.replace('Bearer ', ''), env.FIREBASE_PROJECT_ID);
+  if (verification.error) {
+    return errorResponse('UNAUTHORIZED', 401, verification.error, corsHeaders);
+  }
+
+  let body = {};
+  try {
+    body = await request.json();
+  } catch (e) {
+    // An empty body is a status query
+  }
+
+  try {
+    const caller = await getCallerContext(verification.uid, env);
+    const access = checkProxyAccess(caller.profile);
+    if (!access.allowed) {
+      return errorResponse(access.code, 403, access.reason, corsHeaders);
+    }
+
+    const status = await getQuotaStatus(caller, env);
+    if (body.active === true) {
+      await creditScreenTime(caller, env, status);
+    }
+
+    return new Response(JSON.stringify({
+      date: status.date,
+      limitSeconds: status.limitSeconds,
+      usedSeconds: status.usedSeconds,
+      remainingSeconds: status.remainingSeconds,
+      heartbeatSeconds: HEARTBEAT_SECONDS
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" }
+    });
+  } catch (e) {
+    console.error(`Heartbeat failed: ${e.message}`);
+    return errorResponse('SERVICE_UNAVAILABLE', 503, "Unable to update screen-time usage.", corsHeaders);
+  }
+}
+
+// ==========================================
+// Activity Log
+// ==========================================
+
+/**
+ * Write one navigation event to the `activity` collection.
+ *
+ * @param {object} env - Worker environment
+ * @param {{profile: object, family: object | null}} caller
+ * @param {{url: string, decision: 'ALLOWED' | 'BLOCKED', reason?: string | null, rule?: string}} event
+ * @returns {Promise<string>} The new event's id
+ */
+async function recordActivity(env, caller, event) {
+  const now = Date.now();
+  const id = crypto.randomUUID();
+  let host = '';
+  try {
+    host = new URL(event.url).hostname;
+  } catch (e) {
+    // Invalid URLs are still logged, without a host
+  }
+
+  await commitFirestoreWrites(env, [{
+    update: {
+      name: firestoreDocumentName(env, `activity/${id}`),
+      fields: encodeFirestoreFields({
+        id,
+        uid: caller.profile.uid,
+        familyId: caller.profile.familyId || '',
+        url: event.url,
+        host,
+        timestamp: now,
+        decision: event.decision,
+        reason: event.reason || null,
+        rule: event.rule || null,
+        expiresAt: new Date(now + ACTIVITY_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      })
+    },
+    // Never overwrite an existing document
+    currentDocument: { exists: false }
+  }]);
+  return id;
+}
+
+// ==========================================
+// Parent Alerts
+// ==========================================
+
+/**
+ * Count a child's category block towards the family's alert settings, and raise
+ * an alert in `alerts` once `threshold` watched blocks fall within the window.
+ * Recent attempts are kept in `alertTrackers/{uid}` between requests.
+ *
+ * @param {object} env - Worker environment
+ * @param {{profile: object, family: object | null}} caller
+ * @param {{activityId: string, url: string, category: string}} attempt
+ * @returns {Promise<void>}
+ */
+async function recordBlockedAttempt(env, caller, attempt) {
+  const { profile, family } = caller;
+  if (profile.role !== 'CHILD' || !profile.familyId) return;
+
+  const settings = resolveAlertSettings(family && family.settings);
+  if (!isWatchedCategory(settings, attempt.category)) return;
+
+  const now = Date.now();
+  const trackerPath = `alertTrackers/${profile.uid}`;
+  const tracker = await getFirestoreDocument(env, trackerPath);
+  const result = trackBlockedAttempt(tracker, { at: now, ...attempt }, settings);
+
+  const writes = [{
+    update: {
+      name: firestoreDocumentName(env, trackerPath),
+      fields: encodeFirestoreFields({ uid: profile.uid, familyId: profile.familyId, attempts: result.attempts })
+    }
+  }];
+
+  if (result.alert) {
+    const id = crypto.randomUUID();
+    const hosts = result.alert.map(previous => {
+      try {
+        return new URL(previous.url).hostname;
+      } catch (e) {
+        return '';
+      }
+    });
+    writes.push({
+      update: {
+        name: firestoreDocumentName(env, `alerts/${id}`),
+        fields: encodeFirestoreFields({
+          id,
+          familyId: profile.familyId,
+          childUid: profile.uid,
+          childName: profile.displayName || profile.email || 'Your child',
+          categories: [...new Set(result.alert.map(previous => previous.category))],
+          count: result.alert.length,
+          windowMinutes: settings.windowMinutes,
+          firstAt: result.alert[0].at,
+          lastAt: now,
+          activityIds: result.alert.map(previous => previous.activityId),
+          hosts: [...new Set(hosts.filter(Boolean))],
+          createdAt: now,
+          read: false,
+          // Alerts expire with the activity they link to
+          expiresAt: new Date(now + ACTIVITY_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+        })
+      },
+      currentDocument: { exists: false }
+    });
+  }
+
+  await commitFirestoreWrites(env, writes);
+}
+
+// ==========================================
+// Target Validation (SSRF Protection)
+// ==========================================
+
+const ALLOWED_PORTS = ['', '80', '443'];
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Internal-only names; single-label hosts ("intranet") are rejected separately
+const BLOCKED_HOST_SUFFIXES = ['localhost', 'local', 'internal', 'intranet', 'lan', 'home.arpa', 'corp'];
+
+const DNS_OVER_HTTPS_URL = "https://cloudflare-dns.com/dns-query";
+
+// IPv4 ranges that must never be reached through the proxy: [network, prefix length]
+const PRIVATE_IPV4_RANGES = [
+  ['0.0.0.0', 8],         // "this" network
+  ['10.0.0.0', 8],        // RFC1918
+  ['100.64.0.0', 10],     // carrier-grade NAT
+  ['127.0.0.0', 8],       // loopback
+  ['169.254.0.0', 16],    // link-local, cloud metadata (169.254.169.254)
+  ['172.16.0.0', 12],     // RFC1918
+  ['192.0.0.0', 24],      // IETF protocol assignments
+  ['192.0.2.0', 24],      // documentation
+  ['192.168.0.0', 16],    // RFC1918
+  ['198.18.0.0', 15],     // benchmarking
+  ['198.51.100.0', 24],   // documentation
+  ['203.0.113.0', 24],    // documentation
+  ['224.0.0.0', 4],       // multicast
+  ['240.0.0.0', 4]        // reserved, broadcast
+];
+
+/**
+ * Check that a target URL is a public http(s) site before it is fetched.
+ * Raw IP literals are refused outright; host names are resolved over DNS-over-HTTPS
+ * and refused if any address is private, loopback, link-local or reserved.
+ *
+ * @param {string} rawUrl - Absolute URL requested by the client or a redirect
+ * @returns {Promise<{url?: URL, error?: string, status?: number, message?: string}>}
+ */
+export async function validateTarget(rawUrl) {
+  let target;
+  try {
+    target = new URL(rawUrl);
+  } catch (e) {
+    return { error: 'INVALID_URL', status: 400, message: 'The address is not a valid URL.' };
+  }
+
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return { error: 'UNSUPPORTED_SCHEME', status: 400, message: `${target.protocol} addresses cannot be opened through the proxy.` };
+  }
+
+  if (target.username || target.password) {
+    return { error: 'CREDENTIALS_IN_URL', status: 400, message: 'Addresses with embedded credentials are not allowed.' };
+  }
+
+  if (!ALLOWED_PORTS.includes(target.port)) {
+    return { error: 'PORT_NOT_ALLOWED', status: 403, message: `Port ${target.port} is not allowed; only 80 and 443 are.` };
+  }
+
+  // The URL parser has already normalized decimal/hex/octal IPv4 forms to dotted notation
+  const hostname = target.hostname.toLowerCase().replace(/\.$/, '');
+  if (hostname.startsWith('[') || parseIpv4(hostname) !== null) {
+    return { error: 'IP_LITERAL', status: 403, message: 'IP addresses cannot be opened directly; use a domain name.' };
+  }
+
+  if (!hostname.includes('.') || BLOCKED_HOST_SUFFIXES.some(suffix => hostname === suffix || hostname.endsWith(`.${suffix}`))) {
+    return { error: 'PRIVATE_HOST', status: 403, message: `${hostname} is an internal host name.` };
+  }
+
+  let addresses;
+  try {
+    addresses = await resolveHost(hostname);
+  } catch (e) {
+    console.warn(`DNS lookup failed for ${hostname}: ${e.message}`);
+    return { error: 'DNS_FAILURE', status: 502, message: `Could not resolve ${hostname}.` };
+  }
+
+  if (addresses.length === 0) {
+    return { error: 'DNS_FAILURE', status: 502, message: `${hostname} does not exist.` };
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    return { error: 'PRIVATE_ADDRESS', status: 403, message: `${hostname} points to a private network address.` };
+  }
+
+  return { url: target };
+}
+
+/**
+ * Build the JSON error response for a failed target validation.
+ *
+ * @param {{error: string, status: number, message: string}} check
+ * @param {object} corsHeaders
+ * @returns {Response}
+ */
+function targetErrorResponse(check, corsHeaders) {
+  return errorResponse(check.error, check.status, check.message, corsHeaders);
+}
+
+/**
+ * Resolve A and AAAA records over DNS-over-HTTPS (Workers have no DNS API).
+ *
+ * @param {string} hostname
+ * @returns {Promise<string[]>} IPv4 and IPv6 addresses (CNAME targets are followed by the resolver)
+ */
+async function resolveHost(hostname) {
+  const lookups = ['A', 'AAAA'].map(async (type) => {
+    const response = await fetch(`${DNS_OVER_HTTPS_URL}?name=${encodeURIComponent(hostname)}&type=${type}`, {
+      headers: { "Accept": "application/dns-json" }
+    });
+    if (!response.ok) {
+      throw new Error(`resolver returned ${response.status}`);
+    }
+    const result = await response.json();
+    // 1 = A, 28 = AAAA; other answers (e.g. CNAME) are intermediate steps
+    return (result.Answer || []).filter(answer => answer.type === 1 || answer.type === 28).map(answer => answer.data);
+  });
+
+  return (await Promise.all(lookups)).flat();
+}
+
+/**
+ * @param {string} address - IPv4 or IPv6 address
+ * @returns {boolean} true if the address is not publicly routable
+ */
+export function isPrivateAddress(address) {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) {
+    return PRIVATE_IPV4_RANGES.some(([network, prefix]) => {
+      const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+      return ((ipv4 & mask) >>> 0) === ((parseIpv4(network) & mask) >>> 0);
+    });
+  }
+
+  const groups = parseIpv6(address);
+  if (!groups) return true; // Unparseable: treat as unsafe
+
+  const isZero = (from, to) => groups.slice(from, to).every(group => group === 0);
+
+  // Unspecified (::) and loopback (::1)
+  if (isZero(0, 7) && (groups[7] === 0 || groups[7] === 1)) return true;
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) carry an IPv4 address to check
+  if ((isZero(0, 5) && groups[5] === 0xffff) || (groups[0] === 0x64 && groups[1] === 0xff9b && isZero(2, 6))) {
+    return isPrivateAddress(`${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`);
+  }
+  if ((groups[0] & 0xfe00) === 0xfc00) return true; // unique local fc00::/7
+  if ((groups[0] & 0xffc0) === 0xfe80) return true; // link-local fe80::/10
+  if ((groups[0] & 0xff00) === 0xff00) return true; // multicast ff00::/8
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true; // documentation
+  if (groups[0] === 0x0100 && isZero(1, 4)) return true; // discard-only 100::/64
+
+  return false;
+}
+
+/**
+ * @param {string} address - Dotted IPv4 address
+ * @returns {number | null} The address as an unsigned 32-bit integer
+ */
+function parseIpv4(address) {
+  const match = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  if (octets.some(octet => octet > 255)) return null;
+  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+}
+
+/**
+ * @param {string} address - IPv6 address, optionally bracketed or with an embedded IPv4 tail
+ * @returns {number[] | null} Eight 16-bit groups
+ */
+export function parseIpv6(address) {
+  let value = address.replace(/^\[|\]$/g, '').split('%')[0];
+
+  const ipv4Tail = value.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const ipv4 = parseIpv4(ipv4Tail[1]);
+    if (ipv4 === null) return null;
+    value = value.slice(0, -ipv4Tail[1].length) + `${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return null;
+
+  const groups = [...head, ...new Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  return groups.map(group => parseInt(group, 16));
+}
+
+// ==========================================
+// Caller Context (Firestore)
+// ==========================================
+
+// Profiles and family settings are cached briefly so a suspension or pause takes effect within seconds
+const CALLER_CACHE_TTL_MS = 15 * 1000;
+
+const callerCache = new Map();
+
+/**
+ * Load the caller's UserProfile and their Family, using a short-lived per-isolate cache.
+ *
+ * @param {string} uid - Verified Firebase UID
+ * @param {object} env - Worker environment
+ * @returns {Promise<{profile: object | null, family: object | null}>}
+ */
+async function getCallerContext(uid, env) {
+  const cached = callerCache.get(uid);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.context;
+  }
+
+  const profile = await getFirestoreDocument(env, `users/${uid}`);
+  let family = null;
+  if (profile && profile.familyId) {
+    family = await getFirestoreDocument(env, `families/${profile.familyId}`);
+  }
+
+  const context = { profile, family };
+  callerCache.set(uid, { context, expiresAt: Date.now() + CALLER_CACHE_TTL_MS });
+  return context;
+}
+
+/**
+ * Server-side equivalent of canAccessProxy() in services/userService.ts.
+ *
+ * @param {object | null} profile - The caller's UserProfile
+ * @returns {{allowed: boolean, code?: string, reason?: string}}
+ *   code is PENDING, REJECTED, SUSPENDED, ACCOUNT_NOT_FOUND or NOT_AUTHORIZED
+ */
+function checkProxyAccess(profile) {
+  if (!profile) {
+    return { allowed: false, code: 'ACCOUNT_NOT_FOUND', reason: 'User profile not found.' };
+  }
+
+  if (profile.approvalStatus === 'SUSPENDED') {
+    return { allowed: false, code: 'SUSPENDED', reason: 'Your account has been suspended.' };
+  }
+  if (profile.approvalStatus === 'REJECTED') {
+    return { allowed: false, code: 'REJECTED', reason: 'Your account access has been denied.' };
+  }
+  if (profile.approvalStatus !== 'APPROVED') {
+    return { allowed: false, code: 'PENDING', reason: 'Your account is pending approval.' };
+  }
+
+  if (!['SUPER_ADMIN', 'PARENT', 'CHILD'].includes(profile.role)) {
+    return { allowed: false, code: 'NOT_AUTHORIZED', reason: 'You are not authorized to use this service.' };
+  }
+
+  return { allowed: true };
+}
+
+// ==========================================
+// Firestore REST Access (service account)
+// ==========================================
+
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const FIRESTORE_SCOPE = "https://www.googleapis.com/auth/datastore";
+
+// OAuth access token for the service account, reused until shortly before expiry
+const serviceTokenCache = { token: null, expiresAt: 0 };
+
+/**
+ * Read a single Firestore document and convert it to a plain object.
+ *
+ * @param {object} env - Worker environment
+ * @param {string} path - Document path, e.g. "users/abc123"
+ * @returns {Promise<object | null>} The document data, or null if it does not exist
+ */
+async function getFirestoreDocument(env, path) {
+  const accessToken = await getServiceAccessToken(env);
+  const endpoint = `https://firestore.googleapis.com/v1/projects/${env.FIREBASE_PROJECT_ID}/databases/(default)/documents/${path}`;
+
+  const response = await fetch(endpoint, {
+    headers: { "Authorization": `Bearer ${accessToken}` }
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Firestore returned ${response.status} for ${path}`);
+  }
+
+  const document = await response.json();
+  return decodeFirestoreFields(document.fields || {});
+}
+
+/**
+ * Apply writes atomically through the Firestore commit endpoint.
+ *
+ * @param {object} env - Worker environment
+ * @param {object[]} writes - Firestore REST Write objects
+ * @returns {Promise<void>}
+ */
+async function commitFirestoreWrites(env, writes) {
+  const accessToken = await getServiceAccessToken(env);
+  const endpoint = `https://firestore.googleapis.com/v1/projects/${env.FIREBASE_PROJECT_ID}/databases/(default)/documents:commit`;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Authorization": `Bearer ${accessToken}`, "Content-Type": "application/json" },
+    body: JSON.stringify({ writes })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Firestore commit returned ${response.status}`);
+  }
+}
+
+/**
+ * @param {object} env - Worker environment
+ * @param {string} path - Document path, e.g. "usage/abc123_2026-01-31"
+ * @returns {string} Full resource name used in REST writes
+ */
+function firestoreDocumentName(env, path) {
+  return `projects/${env.FIREBASE_PROJECT_ID}/databases/(default)/documents/${path}`;
+}
+
+/**
+ * Exchange a signed service account assertion for an OAuth access token.
+ * Requires the FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY secrets.
+ *
+ * @param {object} env - Worker environment
+ * @returns {Promise<string>}
+ */
+async function getServiceAccessToken(env) {
+  if (serviceTokenCache.token && serviceTokenCache.expiresAt > Date.now()) {
+    return serviceTokenCache.token;
+  }
+
+  if (!env.FIREBASE_CLIENT_EMAIL || !env.FIREBASE_PRIVATE_KEY) {
+    throw new Error('FIREBASE_CLIENT_EMAIL / FIREBASE_PRIVATE_KEY not set in environment variables');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const assertion = await signServiceAccountJwt(env.FIREBASE_PRIVATE_KEY, {
+    iss: env.FIREBASE_CLIENT_EMAIL,
+    scope: FIRESTORE_SCOPE,
+    aud: GOOGLE_TOKEN_URL,
+    iat: now,
+    exp: now + 3600
+  });
+
+  const response = await fetch(GOOGLE_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Token endpoint returned ${response.status}`);
+  }
+
+  const { access_token, expires_in } = await response.json();
+  serviceTokenCache.token = access_token;
+  // Refresh a minute early so in-flight requests never carry an expired token
+  serviceTokenCache.expiresAt = Date.now() + (expires_in - 60) * 1000;
+  return access_token;
+}
+
+/**
+ * Sign a JWT with the service account's RS256 private key.
+ *
+ * @param {string} privateKeyPem - PKCS#8 PEM private key (literal "\n" sequences allowed)
+ * @param {object} claims - JWT payload
+ * @returns {Promise<string>}
+ */
+async function signServiceAccountJwt(privateKeyPem, claims) {
+  const pemBody = privateKeyPem
+    .replace(/\\n/g, '\n')
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '')
+    .replace(/\s+/g, '');
+
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    base64UrlDecode(pemBody),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const encoder = new TextEncoder();
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'RS256', typ: 'JWT' })));
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign(
+    { name: 'RSASSA-PKCS1-v1_5' },
+    key,
+    encoder.encode(`${header}.${payload}`)
+  );
+
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Convert Firestore REST "fields" into a plain object.
+ *
+ * @param {object} fields - Map of field name to typed Firestore value
+ * @returns {object}
+ */
+function decodeFirestoreFields(fields) {
+  const result = {};
+  for (const [name, value] of Object.entries(fields)) {
+    result[name] = decodeFirestoreValue(value);
+  }
+  return result;
+}
+
+/**
+ * Convert a plain object into Firestore REST typed fields (inverse of decodeFirestoreFields).
+ *
+ * @param {object} data
+ * @returns {object}
+ */
+function encodeFirestoreFields(data) {
+  const fields = {};
+  for (const [name, value] of Object.entries(data)) {
+    if (value !== undefined) {
+      fields[name] = encodeFirestoreValue(value);
+    }
+  }
+  return fields;
+}
+
+/**
+ * @param {any} value
+ * @returns {object} e.g. { stringValue: "x" }
+ */
+function encodeFirestoreValue(value) {
+  if (value === null) return { nullValue: null };
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(encodeFirestoreValue) } };
+  return { mapValue: { fields: encodeFirestoreFields(value) } };
+}
+
+/**
+ * Convert a single typed Firestore REST value into its JavaScript equivalent.
+ *
+ * @param {object} value - e.g. { stringValue: "x" } or { mapValue: { fields: {...} } }
+ * @returns {any}
+ */
+function decodeFirestoreValue(value) {
+  if ('stringValue' in value) return value.stringValue;
+  if ('integerValue' in value) return Number(value.integerValue);
+  if ('doubleValue' in value) return value.doubleValue;
+  if ('booleanValue' in value) return value.booleanValue;
+  if ('timestampValue' in value) return Date.parse(value.timestampValue);
+  if ('mapValue' in value) return decodeFirestoreFields(value.mapValue.fields || {});
+  if ('arrayValue' in value) return (value.arrayValue.values || []).map(decodeFirestoreValue);
+  return null;
+}
+
+// ==========================================
+// Firebase ID Token Verification
+// ==========================================
+
+// Google publishes the Firebase Auth signing keys as a JWK set, rotated every few hours.
+const FIREBASE_JWKS_URL = "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+
+// Tolerance for clock drift between Google and the edge when checking iat/auth_time
+const CLOCK_SKEW_SECONDS = 60;
+
+// Used when the key endpoint omits a max-age directive
+const DEFAULT_KEY_CACHE_SECONDS = 60 * 60;
+
+// Minimum gap between refetches triggered by an unknown `kid`, so forged headers cannot hammer Google
+const UNKNOWN_KID_REFETCH_MS = 60 * 1000;
+
+// Imported CryptoKeys by `kid`, shared by all requests served by this isolate
+const signingKeyCache = {
+  keys: new Map(),
+  expiresAt: 0,
+  fetchedAt: 0,
+  source: null
 };
 
 /**
- * Verifies a Firebase ID Token by creating a simplified JWT validation.
- * Note: For higher security, you should verify the cryptographic signature using Google's public keys.
- * This implementation validates the structural integrity and claims (exp, iss, aud).
- * 
+ * Verifies a Firebase ID Token.
+ * Checks the RS256 signature against Google's published signing keys, then
+ * validates the claims (exp, iat, auth_time, iss, aud, sub) as described in
+ * https://firebase.google.com/docs/auth/admin/verify-id-tokens
+ *
  * @param {string} token - The raw JWT token string
  * @param {string} projectId - The Firebase Project ID
+ * @param {{jwksUrl?: string}} [options] - Tests only: a key endpoint serving locally generated keys.
+ *   The Worker itself never passes this, so Google's keys stay the only trust root.
  * @returns {Promise<{valid: boolean, uid?: string, email?: string, error?: string}>}
  */
-async function verifyFirebaseToken(token, projectId) {
+export async function verifyFirebaseToken(token, projectId, options = {}) {
+  const jwksUrl = options.jwksUrl || FIREBASE_JWKS_URL;
+
+  let header, payload, signature, signedContent;
   try {
-    // Decode JWT (base64url)
     const parts = token.split('.');
     if (parts.length !== 3) return { error: 'Invalid token format' };
-    
-    // Decode payload (second part of JWT)
-    const base64Url = parts[1];
-    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-    const jsonPayload = atob(base64); // 'atob' is available in Workers environment
-    const payload = JSON.parse(jsonPayload);
-    
-    // Check expiration
-    const currentTime = Date.now() / 1000;
-    if (payload.exp < currentTime) {
-      return { error: 'Token expired' };
-    }
-    
-    // Check issuer
-    if (payload.iss !== `https://securetoken.google.com/${projectId}`) {
-      return { error: `Invalid issuer: ${payload.iss}` };
-    }
-    
-    // Check audience
-    if (payload.aud !== projectId) {
-      return { error: `Invalid audience: ${payload.aud}` };
-    }
-
-    return { valid: true, uid: payload.sub, email: payload.email };
+
+    header = JSON.parse(base64UrlDecodeToString(parts[0]));
+    payload = JSON.parse(base64UrlDecodeToString(parts[1]));
+    // Valid JSON is not enough: "null" or "1" would fail on the first property read
+    if (!isJsonObject(header) || !isJsonObject(payload)) {
+      return { error: 'Failed to decode token' };
+    }
+    signature = base64UrlDecode(parts[2]);
+    signedContent = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
   } catch (e) {
     return { error: 'Failed to decode token' };
   }
+
+  // --- Header ---
+  if (header.alg !== 'RS256') {
+    return { error: `Invalid algorithm: ${header.alg}` };
+  }
+  if (!header.kid) {
+    return { error: 'Missing key ID' };
+  }
+
+  // --- Signature ---
+  let key;
+  try {
+    key = await getSigningKey(header.kid, jwksUrl);
+  } catch (e) {
+    console.error(`Failed to load signing keys: ${e.message}`);
+    return { error: 'Unable to load signing keys' };
+  }
+  if (!key) {
+    return { error: `Unknown key ID: ${header.kid}` };
+  }
+
+  const signatureValid = await crypto.subtle.verify(
+    { name: 'RSASSA-PKCS1-v1_5' },
+    key,
+    signature,
+    signedContent
+  );
+  if (!signatureValid) {
+    return { error: 'Invalid signature' };
+  }
+
+  // --- Claims ---
+  const currentTime = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp !== 'number' || payload.exp <= currentTime) {
+    return { error: 'Token expired' };
+  }
+
+  if (typeof payload.iat !== 'number' || payload.iat > currentTime + CLOCK_SKEW_SECONDS) {
+    return { error: 'Token issued in the future' };
+  }
+
+  if (typeof payload.auth_time !== 'number' || payload.auth_time > currentTime + CLOCK_SKEW_SECONDS) {
+    return { error: 'Invalid auth_time' };
+  }
+
+  if (payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    return { error: `Invalid issuer: ${payload.iss}` };
+  }
+
+  if (payload.aud !== projectId) {
+    return { error: `Invalid audience: ${payload.aud}` };
+  }
+
+  if (typeof payload.sub !== 'string' || payload.sub.length === 0 || payload.sub.length > 128) {
+    return { error: 'Invalid subject' };
+  }
+
+  return { valid: true, uid: payload.sub, email: payload.email };
+}
+
+/** A plain JSON object, as opposed to null, an array or a primitive. */
+function isJsonObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Look up the public key for a `kid`, refreshing the cached key set when it
+ * has expired or when a new key appears after a rotation.
+ *
+ * @param {string} kid - Key ID from the token header
+ * @param {string} jwksUrl - JWK set endpoint
+ * @returns {Promise<CryptoKey | null>}
+ */
+async function getSigningKey(kid, jwksUrl) {
+  const now = Date.now();
+  const cacheUsable = signingKeyCache.source === jwksUrl && now < signingKeyCache.expiresAt;
+
+  if (cacheUsable && signingKeyCache.keys.has(kid)) {
+    return signingKeyCache.keys.get(kid);
+  }
+
+  if (cacheUsable && now - signingKeyCache.fetchedAt < UNKNOWN_KID_REFETCH_MS) {
+    return null;
+  }
+
+  await refreshSigningKeys(jwksUrl);
+  return signingKeyCache.keys.get(kid) || null;
 }
 
-// Helper class to rewrite relative URLs to absolute URLs
+/**
+ * Fetch the JWK set and import every RS256 key, honoring Cache-Control max-age.
+ *
+ * @param {string} jwksUrl - JWK set endpoint
+ */
+async function refreshSigningKeys(jwksUrl) {
+  const response = await fetch(jwksUrl);
+  if (!response.ok) {
+    throw new Error(`Key endpoint returned ${response.status}`);
+  }
+
+  const { keys = [] } = await response.json();
+  const imported = new Map();
+
+  for (const jwk of keys) {
+    if (!jwk.kid || jwk.kty !== 'RSA') continue;
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: jwk.kty, n: jwk.n, e: jwk.e, alg: 'RS256', ext: true },
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    imported.set(jwk.kid, key);
+  }
+
+  const cacheControl = response.headers.get('cache-control') || '';
+  const maxAgeMatch = cacheControl.match(/max-age=(\d+)/);
+  const maxAgeSeconds = maxAgeMatch ? parseInt(maxAgeMatch[1], 10) : DEFAULT_KEY_CACHE_SECONDS;
+
+  const now = Date.now();
+  signingKeyCache.keys = imported;
+  signingKeyCache.fetchedAt = now;
+  signingKeyCache.expiresAt = now + maxAgeSeconds * 1000;
+  signingKeyCache.source = jwksUrl;
+}
+
+/**
+ * Decode a base64url string into raw bytes.
+ *
+ * @param {string} input - base64url encoded data (padding optional)
+ * @returns {Uint8Array}
+ */
+function base64UrlDecode(input) {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded); // 'atob' is available in Workers environment
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode raw bytes as an unpadded base64url string.
+ *
+ * @param {Uint8Array} bytes - Data to encode
+ * @returns {string}
+ */
+function base64UrlEncode(bytes) {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url string into UTF-8 text (JWT header and payload segments).
+ *
+ * @param {string} input - base64url encoded data
+ * @returns {string}
+ */
+function base64UrlDecodeToString(input) {
+  return new TextDecoder().decode(base64UrlDecode(input));
+}
+
+// ==========================================
+// Proxy Sessions
+// ==========================================
+
+const PROXY_PATH_PREFIX = "/proxy/";
+
+// Rewritten links stop working this long after the page was loaded with an ID token
+const PROXY_SESSION_TTL_SECONDS = 60 * 60;
+
+/**
+ * Mint a proxy session for a verified user: "<exp>.<uid>.<hmac>" (base64url parts).
+ * Rewritten URLs carry it in the path because browsers cannot attach an
+ * Authorization header to <img>, <a> or <form> requests.
+ *
+ * @param {string} uid - Verified Firebase UID
+ * @param {string} secret - PROXY_SESSION_SECRET
+ * @returns {Promise<string>}
+ */
+async function createProxySession(uid, secret) {
+  const exp = Math.floor(Date.now() / 1000) + PROXY_SESSION_TTL_SECONDS;
+  const payload = `${exp}.${base64UrlEncode(new TextEncoder().encode(uid))}`;
+  const key = await importHmacKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check a proxy session's signature and expiry.
+ *
+ * @param {string} session - Session string from the proxy path
+ * @param {string} secret - PROXY_SESSION_SECRET
+ * @returns {Promise<{uid?: string, error?: string}>}
+ */
+async function verifyProxySession(session, secret) {
+  const parts = session.split('.');
+  if (parts.length !== 3) return { error: 'Invalid session' };
+
+  const [exp, encodedUid, signature] = parts;
+  try {
+    const key = await importHmacKey(secret);
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`${exp}.${encodedUid}`)
+    );
+    if (!valid) return { error: 'Invalid session' };
+  } catch (e) {
+    return { error: 'Invalid session' };
+  }
+
+  if (Number(exp) <= Math.floor(Date.now() / 1000)) {
+    return { error: 'Session expired, reload the page from the Dashboard' };
+  }
+
+  return { uid: base64UrlDecodeToString(encodedUid) };
+}
+
+/**
+ * @param {string} secret - Raw secret string
+ * @returns {Promise<CryptoKey>}
+ */
+function importHmacKey(secret) {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Whether a "/proxy/" request loads a page rather than an asset. Pages in the Dashboard's
+ * frame arrive as iframe navigations, including form submissions, meta refresh and
+ * script-driven location changes; pages opened in a new tab arrive as documents.
+ *
+ * @param {Request} request
+ * @returns {boolean}
+ */
+export function isNavigationRequest(request) {
+  const destination = request.headers.get("Sec-Fetch-Dest");
+  return destination === "document" || destination === "iframe" || request.headers.get("Sec-Fetch-Mode") === "navigate";
+}
+
+/**
+ * A page load through a /proxy/ link, as opposed to a Dashboard "?url=" fetch or an asset.
+ *
+ * @param {Request} request
+ * @returns {boolean}
+ */
+function isProxiedNavigation(request) {
+  return new URL(request.url).pathname.startsWith(PROXY_PATH_PREFIX) && isNavigationRequest(request);
+}
+
+/**
+ * Split "/proxy/<session>/<scheme>/<host>/<path>" back into the session and target URL.
+ * The query string of the proxy URL is the target's query string, which keeps
+ * GET form submissions working.
+ *
+ * @param {URL} url - The incoming request URL
+ * @returns {{session: string, targetUrl: string} | null}
+ */
+function parseProxyPath(url) {
+  const [session, scheme, host, ...rest] = url.pathname.slice(PROXY_PATH_PREFIX.length).split('/');
+  if (!session || !host || (scheme !== 'http' && scheme !== 'https')) {
+    return null;
+  }
+  return { session, targetUrl: `${scheme}://${host}/${rest.join('/')}${url.search}` };
+}
+
+// ==========================================
+// URL Rewriting
+// ==========================================
+
+// Attributes cleared of javascript: URLs when a filter policy strips scripts
+const SCRIPT_URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href'];
+
+// Values that do not trigger a network request (or are handled by the browser itself)
+const NON_FETCHABLE_URL = /^(#|data:|javascript:|mailto:|tel:|blob:|about:)/i;
+
+/**
+ * Resolve a URL found in a page and turn it into a proxy URL.
+ *
+ * @param {string} value - Raw attribute or CSS value
+ * @param {{baseUrl: string, proxyBase: string}} rewriteContext
+ * @returns {string | null} The proxy URL, or null to leave the value untouched
+ */
+export function toProxyUrl(value, rewriteContext) {
+  const trimmed = value.trim();
+  if (!trimmed || NON_FETCHABLE_URL.test(trimmed)) {
+    return null;
+  }
+
+  let absolute;
+  try {
+    absolute = new URL(trimmed, rewriteContext.baseUrl);
+  } catch (e) {
+    return null; // If URL parsing fails, leave it alone
+  }
+
+  if (absolute.protocol !== 'http:' && absolute.protocol !== 'https:') {
+    return null;
+  }
+
+  const scheme = absolute.protocol.slice(0, -1);
+  return `${rewriteContext.proxyBase}${scheme}/${absolute.host}${absolute.pathname}${absolute.search}${absolute.hash}`;
+}
+
+/**
+ * Rewrite a srcset value ("a.png 1x, b.png 2x") candidate by candidate.
+ * URLs may themselves contain commas (e.g. image CDN transforms), so a comma
+ * only separates candidates when it follows a descriptor or ends the URL.
+ *
+ * @param {string} srcset
+ * @param {{baseUrl: string, proxyBase: string}} rewriteContext
+ * @returns {string}
+ */
+export function rewriteSrcset(srcset, rewriteContext) {
+  const candidates = [];
+  // The URL ends at whitespace (then descriptors up to the next comma) or at commas followed by whitespace
+  for (const match of srcset.matchAll(/[\s,]*([^\s,]\S*?)(?:,+(?=\s|$)|\s+([^,]*),?|$)/g)) {
+    const descriptor = (match[2] || '').trim().replace(/\s+/g, ' ');
+    candidates.push(`${toProxyUrl(match[1], rewriteContext) || match[1]}${descriptor ? ` ${descriptor}` : ''}`);
+  }
+  return candidates.join(', ');
+}
+
+/**
+ * Rewrite url(...) references and @import rules in CSS text.
+ *
+ * @param {string} css
+ * @param {{baseUrl: string, proxyBase: string}} rewriteContext
+ * @returns {string}
+ */
+export function rewriteCssUrls(css, rewriteContext) {
+  return css
+    .replace(/url\(\s*(['"]?)([^'")]*)\1\s*\)/gi, (match, quote, value) => {
+      const proxied = toProxyUrl(value, rewriteContext);
+      return proxied ? `url(${quote}${proxied}${quote})` : match;
+    })
+    .replace(/@import\s+(['"])([^'"]*)\1/gi, (match, quote, value) => {
+      const proxied = toProxyUrl(value, rewriteContext);
+      return proxied ? `@import ${quote}${proxied}${quote}` : match;
+    });
+}
+
+/**
+ * Build the HTMLRewriter that routes every link and asset on a page through the proxy.
+ *
+ * @param {{baseUrl: string, proxyBase: string}} rewriteContext
+ * @param {{stripScripts?: boolean}} [options] - stripScripts comes from the filter policy
+ * @returns {HTMLRewriter}
+ */
+function createPageRewriter(rewriteContext, options = {}) {
+  const rewriter = new HTMLRewriter()
+    .on("head", new ProxyBaseInjector(rewriteContext))
+    .on("base", new BaseRewriter(rewriteContext))
+    .on("a", new AttributeRewriter("href", rewriteContext))
+    .on("area", new AttributeRewriter("href", rewriteContext))
+    .on("link", new AttributeRewriter("href", rewriteContext))
+    .on("link", new AttributeRewriter("imagesrcset", rewriteContext, rewriteSrcset))
+    .on("img", new AttributeRewriter("src", rewriteContext))
+    .on("img", new AttributeRewriter("srcset", rewriteContext, rewriteSrcset))
+    .on("script", new AttributeRewriter("src", rewriteContext))
+    .on("iframe", new AttributeRewriter("src", rewriteContext))
+    .on("form", new AttributeRewriter("action", rewriteContext))
+    .on("source", new AttributeRewriter("src", rewriteContext))
+    .on("source", new AttributeRewriter("srcset", rewriteContext, rewriteSrcset))
+    .on("video", new AttributeRewriter("src", rewriteContext))
+    .on("video", new AttributeRewriter("poster", rewriteContext))
+    .on("audio", new AttributeRewriter("src", rewriteContext))
+    .on("track", new AttributeRewriter("src", rewriteContext))
+    .on("meta", new MetaRefreshRewriter(rewriteContext))
+    .on("[style]", new AttributeRewriter("style", rewriteContext, rewriteCssUrls))
+    .on("style", new StyleElementRewriter(rewriteContext));
+
+  // The Dashboard bridge is injected by ProxyBaseInjector, whose output the rewriter does not revisit
+  if (options.stripScripts) {
+    rewriter
+      .on("script", { element: (element) => element.remove() })
+      .on("noscript", { element: (element) => element.removeAndKeepContent() })
+      .on("*", new ScriptAttributeStripper());
+  }
+
+  return rewriter;
+}
+
+// Removes inline event handlers (onclick=...) and javascript: URLs
+class ScriptAttributeStripper {
+  element(element) {
+    for (const [name, value] of [...element.attributes]) {
+      if (/^on/i.test(name) || (SCRIPT_URL_ATTRIBUTES.includes(name) && /^\s*javascript:/i.test(value))) {
+        element.removeAttribute(name);
+      }
+    }
+  }
+}
+
+// Helper class to route a URL-bearing attribute through the proxy
 class AttributeRewriter {
-  constructor(attributeName, baseUrlObj) {
+  constructor(attributeName, rewriteContext, rewriteValue) {
     this.attributeName = attributeName;
-    this.baseUrlObj = baseUrlObj;
+    this.rewriteContext = rewriteContext;
+    this.rewriteValue = rewriteValue || ((value, context) => toProxyUrl(value, context));
   }
 
   element(element) {
     const attribute = element.getAttribute(this.attributeName);
     if (attribute) {
+      const rewritten = this.rewriteValue(attribute, this.rewriteContext);
+      if (rewritten && rewritten !== attribute) {
+        element.setAttribute(this.attributeName, rewritten);
+      }
+      // Stylesheets are rewritten too, so their hashes no longer match
+      if (element.tagName === 'link') {
+        element.removeAttribute('integrity');
+      }
+    }
+  }
+}
+
+// Applies the page's <base href> to later URLs, then drops it since every URL is now absolute
+class BaseRewriter {
+  constructor(rewriteContext) {
+    this.rewriteContext = rewriteContext;
+  }
+
+  element(element) {
+    const href = element.getAttribute('href');
+    if (href) {
       try {
-        // Check if it's already an absolute URL
-        if (attribute.startsWith("http") || attribute.startsWith("//")) {
-          return;
-        }
-        // Resolve relative path
-        // e.g. Base: https://example.com/blog/, Path: ./image.png -> https://example.com/blog/image.png
-        const newUrl = new URL(attribute, this.baseUrlObj.href).href;
-        element.setAttribute(this.attributeName, newUrl);
+        this.rewriteContext.baseUrl = new URL(href, this.rewriteContext.baseUrl).href;
       } catch (e) {
-        // If URL parsing fails, leave it alone
+        // Keep the current base
       }
     }
+    element.remove();
+  }
+}
+
+// Adds a <base> pointing at the proxied page, so URLs built by scripts or forms
+// without an action resolve back through the proxy instead of the origin
+class ProxyBaseInjector {
+  constructor(rewriteContext) {
+    this.rewriteContext = rewriteContext;
+  }
+
+  element(element) {
+    const proxiedPage = toProxyUrl(this.rewriteContext.baseUrl, this.rewriteContext);
+    if (proxiedPage) {
+      element.prepend(
+        `<base href="${proxiedPage.replace(/"/g, '&quot;')}"><script>${createDashboardBridge(this.rewriteContext.baseUrl)}</script>`,
+        { html: true }
+      );
+    }
+  }
+}
+
+// Rewrites <meta http-equiv="refresh" content="5; url=...">
+class MetaRefreshRewriter {
+  constructor(rewriteContext) {
+    this.rewriteContext = rewriteContext;
+  }
+
+  element(element) {
+    if ((element.getAttribute('http-equiv') || '').toLowerCase() !== 'refresh') return;
+
+    const content = element.getAttribute('content') || '';
+    const match = content.match(/^(\s*\d+\s*[;,]\s*url\s*=\s*)(['"]?)(.*?)\2\s*$/i);
+    if (!match) return;
+
+    const proxied = toProxyUrl(match[3], this.rewriteContext);
+    if (proxied) {
+      element.setAttribute('content', `${match[1]}${proxied}`);
+    }
+  }
+}
+
+// Buffers the text of a <style> element and rewrites its url(...) references
+class StyleElementRewriter {
+  constructor(rewriteContext) {
+    this.rewriteContext = rewriteContext;
+    this.buffer = '';
+  }
+
+  text(chunk) {
+    this.buffer += chunk.text;
+    if (chunk.lastInTextNode) {
+      chunk.replace(rewriteCssUrls(this.buffer, this.rewriteContext), { html: true });
+      this.buffer = '';
+    } else {
+      chunk.remove();
+    }
   }
 }